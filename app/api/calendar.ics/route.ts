@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChannelLineup } from '@/lib/channel-lineup'
+import { now } from '@/lib/clock'
+import { DEFAULT_VENUE_ID, isValidVenueId } from '@/lib/domain'
+import { getDurationStats } from '@/lib/duration-history'
+import { CALENDAR_CONTENT_TYPE, CalendarEvent, buildCalendar, getPlanEvents, getScheduleEvents } from '@/lib/ical'
+import { getNbaSchedule } from '@/lib/nba-schedule'
+import { getPlanWeekKey } from '@/lib/plan-history'
+import { getPlanVersion } from '@/lib/plan-store'
+import { filterGameDates, parseScheduleFilters } from '@/lib/schedule-filters'
+import { resolveTimeZone } from '@/lib/timezone'
+import { getVenue } from '@/lib/venue-store'
+
+// The plan feed covers last week's saved plan through this many weeks ahead
+const PLAN_WEEKS_AHEAD = 4
+
+// Without a "from", the schedule feed starts this many days back so calendars keep recent games
+const SCHEDULE_DAYS_BACK = 7
+
+function addDays(dateKey: string, days: number) {
+  const date = new Date(`${dateKey}T12:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+function getFeedWeeks(today: string) {
+  const sunday = getPlanWeekKey(today)
+  return Array.from({ length: PLAN_WEEKS_AHEAD + 2 }, (_, index) => addDays(sunday, (index - 1) * 7))
+}
+
+// GET ?feed=schedule (the default) is one event per game and takes the /api/schedule filters
+// (from, to, teams, status); teams=favorites uses the venue's favorite teams.
+// GET ?feed=plan&venue=joes-bar is one event per TV assignment in the venue's latest saved plans.
+// Channels come from the venue's lineup. Subscribe to either URL to keep a calendar current.
+export async function GET(request: NextRequest) {
+  const searchParams = new URLSearchParams(request.nextUrl.searchParams)
+  const feed = searchParams.get('feed') || 'schedule'
+  const venueId = searchParams.get('venue') || DEFAULT_VENUE_ID
+
+  if (feed !== 'schedule' && feed !== 'plan') {
+    return NextResponse.json({ error: 'Invalid feed, expected schedule or plan' }, { status: 400 })
+  }
+  if (!isValidVenueId(venueId)) {
+    return NextResponse.json({ error: 'Invalid venue' }, { status: 400 })
+  }
+
+  try {
+    const venue = await getVenue(venueId)
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 })
+    }
+
+    const preferences = venue.preferences
+    const today = now().toLocaleDateString('en-CA', { timeZone: resolveTimeZone(preferences) })
+    const channelLineup = getChannelLineup(preferences)
+    const durationStats = await getDurationStats()
+
+    let name: string
+    let events: CalendarEvent[]
+    if (feed === 'plan') {
+      const versions = (await Promise.all(getFeedWeeks(today).map(week => getPlanVersion(venueId, week))))
+        .filter(version => version !== null)
+      name = `${venue.name} TV plan`
+      events = versions.flatMap(version => getPlanEvents(venueId, version.plan.optimizedGames, version.plan.tvs, channelLineup, durationStats))
+    } else {
+      const favoritesOnly = searchParams.get('teams') === 'favorites'
+      if (favoritesOnly) {
+        searchParams.set('teams', (preferences?.favoriteNbaTeams ?? []).join(','))
+      }
+      if (!searchParams.get('from')) {
+        searchParams.set('from', addDays(today, -SCHEDULE_DAYS_BACK))
+      }
+      const parsed = parseScheduleFilters(searchParams)
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+
+      // A favorites feed stays empty until the venue picks some, rather than listing every game
+      const { data } = await getNbaSchedule()
+      const games = favoritesOnly && !parsed.filters.teams?.length
+        ? []
+        : filterGameDates(data.schedule.leagueSchedule.gameDates, parsed.filters).flatMap(gameDate => gameDate.games)
+      name = parsed.filters.teams?.length ? `NBA - ${parsed.filters.teams.join(', ')}` : 'NBA schedule'
+      events = getScheduleEvents(games, channelLineup, durationStats)
+    }
+
+    return new NextResponse(buildCalendar(name, events), {
+      headers: {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': `inline; filename="${feed === 'plan' ? `${venueId}-tv-plan` : 'nba-schedule'}.ics"`
+      }
+    })
+  } catch (error) {
+    console.error('Failed to build calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to build calendar feed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
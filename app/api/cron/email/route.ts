@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { now } from '@/lib/clock'
+import { isCronAuthorized } from '@/lib/cron-secret'
+import { getAppUrl, runDueSubscriptions } from '@/lib/email-scheduler'
+
+// Sends the email subscriptions that are due. Call it every few minutes; when CRON_SECRET is set the
+// request needs "Authorization: Bearer <CRON_SECRET>".
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const ranAt = now()
+    const results = await runDueSubscriptions(getAppUrl(request.nextUrl.origin), ranAt)
+    return NextResponse.json({ ranAt: ranAt.toISOString(), results })
+  } catch (error) {
+    console.error('Email scheduler error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run email subscriptions', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getChannelLineup } from '@/lib/channel-lineup'
+import { now } from '@/lib/clock'
+import { formatDigestHeading, formatDigestSms, formatRunSheetLine } from '@/lib/daily-digest'
+import { DEFAULT_VENUE_ID, isValidVenueId } from '@/lib/domain'
+import { getSavedDigest } from '@/lib/email-scheduler'
+import { generateDigestEmailHTML } from '@/lib/email-templates'
+import { resolveTimeZone } from '@/lib/timezone'
+import { getVenue } from '@/lib/venue-store'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET ?venue=joes-bar&date=2025-01-14 (or date=today, the default, in the venue's zone) returns
+// the day's run sheet from the venue's saved plan: { date, heading, lines, sms, planVersions }.
+// format=html returns the digest email instead.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const venueId = searchParams.get('venue') || DEFAULT_VENUE_ID
+  const format = searchParams.get('format') || 'json'
+
+  if (!isValidVenueId(venueId)) {
+    return NextResponse.json({ error: 'Invalid venue' }, { status: 400 })
+  }
+  if (format !== 'json' && format !== 'html') {
+    return NextResponse.json({ error: 'Invalid format, expected json or html' }, { status: 400 })
+  }
+
+  try {
+    const venue = await getVenue(venueId)
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 })
+    }
+
+    const timeZone = resolveTimeZone(venue.preferences)
+    const requestedDate = searchParams.get('date') || 'today'
+    const date = requestedDate === 'today' ? now().toLocaleDateString('en-CA', { timeZone }) : requestedDate
+    if (!DATE_PATTERN.test(date)) {
+      return NextResponse.json({ error: 'Invalid date, expected YYYY-MM-DD or "today"' }, { status: 400 })
+    }
+
+    const saved = await getSavedDigest(venueId, date, getChannelLineup(venue.preferences))
+    if (!saved) {
+      return NextResponse.json({ error: 'No saved plan for that week' }, { status: 404 })
+    }
+
+    const { digest, planVersions } = saved
+    if (format === 'html') {
+      return new NextResponse(generateDigestEmailHTML(digest, timeZone), { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+    }
+    return NextResponse.json({
+      date,
+      heading: formatDigestHeading(digest, timeZone),
+      lines: digest.entries.map(entry => formatRunSheetLine(entry, timeZone)),
+      sms: formatDigestSms(digest, timeZone),
+      planVersions
+    })
+  } catch (error) {
+    console.error('Failed to build digest:', error)
+    return NextResponse.json(
+      { error: 'Failed to build digest', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,392 +1,159 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { Resend } from 'resend'
-
-const resend = new Resend(process.env.RESEND_API_KEY || 'your-api-key-here')
-
-interface Team {
-  teamId: number
-  teamName: string
-  teamCity: string
-  teamTricode: string
-  teamSlug: string
-  wins: number
-  losses: number
-  score: number
-  seed: number
-}
-
-interface Game {
-  gameId: string
-  gameCode: string
-  gameStatus: number
-  gameStatusText: string
-  gameSequence: number
-  gameDateEst: string
-  gameTimeEst: string
-  gameDateTimeEst: string
-  gameDateUTC: string
-  gameTimeUTC: string
-  gameDateTimeUTC: string
-  awayTeamTime: string
-  homeTeamTime: string
-  day: string
-  monthNum: number
-  weekNumber: number
-  weekName: string
-  ifNecessary: string
-  seriesGameNumber: string
-  gameLabel: string
-  gameSubLabel: string
-  seriesText: string
-  arenaName: string
-  arenaState: string
-  arenaCity: string
-  postponedStatus: string
-  branchLink: string
-  gameSubtype: string
-  isNeutral: boolean
-  homeTeam: Team
-  awayTeam: Team
-  pointsLeaders: unknown[]
-}
-
-interface WeekData {
-  weekStart: string
-  weekEnd: string
-  games: Game[]
-  tvSchedule?: Record<number, Game[]>
-  recommendations?: string[]
-  weekSummary?: string
-  isOptimized?: boolean
-}
-
-function formatWeekRange(weekStart: string, weekEnd: string) {
-  const start = new Date(weekStart)
-  const end = new Date(weekEnd)
-  
-  const startMonth = start.toLocaleDateString('en-US', { month: 'short' })
-  const endMonth = end.toLocaleDateString('en-US', { month: 'short' })
-  const startDay = start.getDate()
-  const endDay = end.getDate()
-  const year = end.getFullYear()
-  
-  if (startMonth === endMonth) {
-    return `${startMonth} ${startDay}-${endDay}, ${year}`
-  } else {
-    return `${startMonth} ${startDay} - ${endMonth} ${endDay}, ${year}`
+import {
+  DEFAULT_VENUE_ID,
+  NOTIFICATION_CHANNEL_NAMES,
+  NotificationChannelName,
+  OptimizedGame,
+  Subscription,
+  findInvalidGame,
+  isChannelLineup,
+  isValidVenueId
+} from '@/lib/domain'
+import { getChannelLineup } from '@/lib/channel-lineup'
+import { buildDailyDigest } from '@/lib/daily-digest'
+import { getDurationStats } from '@/lib/duration-history'
+import { EmailFooterLinks } from '@/lib/email-templates'
+import { getAppUrl, getSubscriptionLinks } from '@/lib/email-scheduler'
+import { getWeekCalendarAttachment } from '@/lib/ical'
+import { NotificationRecipient, buildDigestNotification, buildScheduleNotification, getNotificationChannel, sendNotification } from '@/lib/notifications'
+import { listSubscriptions } from '@/lib/subscription-store'
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezone'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const MAX_RECIPIENTS = 20
+
+// recipientEmail, plus any { channel: 'email' | 'sms', address } in recipients; an error names the
+// first one that isn't usable
+function parseRecipients(recipientEmail: unknown, recipients: unknown): { recipients: NotificationRecipient[] } | { error: string } {
+  const requested = [
+    ...(recipientEmail ? [{ channel: 'email', address: recipientEmail }] : []),
+    ...(Array.isArray(recipients) ? recipients : [])
+  ]
+  if (requested.length === 0) return { error: 'Missing required fields: weekData and recipientEmail or recipients' }
+  if (requested.length > MAX_RECIPIENTS) return { error: `Expected at most ${MAX_RECIPIENTS} recipients` }
+
+  const parsed: NotificationRecipient[] = []
+  for (const [index, recipient] of requested.entries()) {
+    const channel = recipient?.channel as NotificationChannelName
+    const address = NOTIFICATION_CHANNEL_NAMES.includes(channel) && typeof recipient.address === 'string'
+      ? getNotificationChannel(channel).normalizeAddress(recipient.address)
+      : null
+    if (!address) return { error: `Invalid recipient ${typeof recipient?.address === 'string' ? `"${recipient.address}"` : `at ${index}`}` }
+    parsed.push({ channel, address })
   }
+  return { recipients: parsed }
 }
 
-function formatGameTime(gameStatusText: string) {
-  return gameStatusText
-}
-
-function formatDate(dateString: string) {
-  const date = new Date(dateString)
-  return date.toLocaleDateString('en-US', { 
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  })
-}
-
-function generateEmailHTML(weekData: WeekData) {
-  const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
-  
-  // Group games by date
-  const gamesByDate = new Map<string, Game[]>()
-  weekData.games.forEach(game => {
-    const date = game.gameDateEst.split(' ')[0] // Get date part only
-    if (!gamesByDate.has(date)) {
-      gamesByDate.set(date, [])
-    }
-    gamesByDate.get(date)!.push(game)
-  })
-
-  // Sort dates
-  const sortedDates = Array.from(gamesByDate.keys()).sort((a, b) => {
-    return new Date(a).getTime() - new Date(b).getTime()
-  })
-
-  let gamesHTML = ''
-  
-  if (sortedDates.length === 0) {
-    gamesHTML = '<p style="text-align: center; color: #666; font-style: italic; margin: 20px 0;">No games scheduled for this week.</p>'
-  } else {
-    gamesHTML = sortedDates.map(date => {
-      const games = gamesByDate.get(date)!
-      const formattedDate = formatDate(date)
-      
-      const dayGamesHTML = games.map(game => `
-        <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin: 8px 0; background-color: #ffffff;">
-          <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 12px;">
-            <div style="display: flex; align-items: center; gap: 8px;">
-              <span style="background-color: #fed7aa; color: #ea580c; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-weight: 500;">
-                ${game.gameLabel}
-              </span>
-              ${game.gameSubLabel ? `<span style="background-color: #f3f4f6; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px;">${game.gameSubLabel}</span>` : ''}
-            </div>
-            <div style="font-size: 18px; font-weight: 600; color: #2563eb;">
-              ${formatGameTime(game.gameStatusText)}
-            </div>
-          </div>
-          
-          <div style="margin-bottom: 12px;">
-            <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px;">
-              <div style="display: flex; align-items: center; gap: 12px;">
-                <span style="font-size: 14px; color: #6b7280; width: 48px;">Away:</span>
-                <span style="font-weight: 600; color: #111827;">
-                  ${game.awayTeam.teamCity} ${game.awayTeam.teamName}
-                </span>
-                <span style="background-color: #e5e7eb; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-family: monospace;">
-                  ${game.awayTeam.teamTricode}
-                </span>
-                <span style="font-size: 14px; color: #6b7280;">
-                  (${game.awayTeam.wins}-${game.awayTeam.losses})
-                </span>
-              </div>
-            </div>
-            <div style="display: flex; align-items: center; justify-content: space-between;">
-              <div style="display: flex; align-items: center; gap: 12px;">
-                <span style="font-size: 14px; color: #6b7280; width: 48px;">Home:</span>
-                <span style="font-weight: 600; color: #111827;">
-                  ${game.homeTeam.teamCity} ${game.homeTeam.teamName}
-                </span>
-                <span style="background-color: #e5e7eb; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-family: monospace;">
-                  ${game.homeTeam.teamTricode}
-                </span>
-                <span style="font-size: 14px; color: #6b7280;">
-                  (${game.homeTeam.wins}-${game.homeTeam.losses})
-                </span>
-              </div>
-            </div>
-          </div>
-          
-          <div style="border-top: 1px solid #e5e7eb; padding-top: 12px;">
-            <div style="display: flex; align-items: center; gap: 8px; font-size: 14px; color: #6b7280;">
-              <svg style="width: 16px; height: 16px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-              </svg>
-              <span>
-                ${game.arenaName}${game.arenaCity ? `, ${game.arenaCity}` : ''}${game.arenaState ? `, ${game.arenaState}` : ''}
-              </span>
-              ${game.isNeutral ? '<span style="background-color: #fef3c7; color: #d97706; padding: 2px 8px; border-radius: 4px; font-size: 12px;">Neutral Site</span>' : ''}
-            </div>
-          </div>
-        </div>
-      `).join('')
-      
-      return `
-        <div style="margin-bottom: 32px;">
-          <h3 style="background-color: #2563eb; color: white; padding: 16px 24px; margin: 0; font-size: 20px; font-weight: 600; border-radius: 8px 8px 0 0;">
-            ${formattedDate}
-          </h3>
-          <div style="background-color: #f9fafb; padding: 16px 24px; border-radius: 0 0 8px 8px;">
-            <p style="color: #2563eb; margin: 0 0 16px 0; font-size: 16px;">
-              ${games.length} game${games.length !== 1 ? 's' : ''}
-            </p>
-            ${dayGamesHTML}
-          </div>
-        </div>
-      `
-    }).join('')
-  }
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1">
-      <title>NBA Schedule - ${weekRange}</title>
-    </head>
-    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
-      <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-        <header style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white; padding: 32px 24px; text-align: center;">
-          <h1 style="margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">NBA Schedule</h1>
-          <h2 style="margin: 0; font-size: 24px; font-weight: 600; opacity: 0.9;">${weekRange}</h2>
-        </header>
-        
-        <div style="padding: 32px 24px;">
-          ${gamesHTML}
-        </div>
-        
-        <footer style="background-color: #f3f4f6; padding: 16px 24px; text-align: center; color: #6b7280; font-size: 14px;">
-          <p style="margin: 0;">Generated on ${new Date().toLocaleDateString('en-US', { 
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-            hour: 'numeric',
-            minute: '2-digit'
-          })}</p>
-        </footer>
-      </div>
-    </body>
-    </html>
-  `
-}
-
-function generateOptimizedEmailHTML(weekData: WeekData) {
-  const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
-  
-  // Generate TV Schedule HTML
-  let tvScheduleHTML = ''
-  if (weekData.tvSchedule) {
-    tvScheduleHTML = Object.entries(weekData.tvSchedule)
-      .sort(([a], [b]) => parseInt(a) - parseInt(b))
-      .map(([tvNumber, games]) => {
-        const gamesList = games as Array<Game & { priority?: number; color?: string; reasoning?: string }>
-        
-        const gamesHTML = gamesList.map(game => {
-          // Convert priority to stars (1-10 scale to 1-5 stars)
-          const priority = game.priority || 5
-          const stars = Math.round(priority / 2) // Convert 1-10 to 1-5 stars
-          const starDisplay = '⭐'.repeat(Math.max(1, Math.min(5, stars))) // Ensure 1-5 stars
-          
-          return `
-            <div style="background-color: #f8fafc; border-left: 4px solid ${game.color || '#3b82f6'}; padding: 12px; margin-bottom: 8px; border-radius: 6px;">
-              <div style="font-weight: 600; color: #1f2937; margin-bottom: 4px; display: flex; justify-content: space-between; align-items: center;">
-                <span>${game.awayTeam.teamTricode} @ ${game.homeTeam.teamTricode}</span>
-                <span style="font-size: 16px;" title="Priority: ${priority}/10">${starDisplay}</span>
-              </div>
-              <div style="color: #6b7280; font-size: 14px;">
-                ${formatGameTime(game.gameStatusText)}
-              </div>
-              ${game.reasoning && !game.reasoning.includes('duplicate') ? `
-                <div style="color: #6b7280; font-size: 12px; margin-top: 4px; font-style: italic;">
-                  ${game.reasoning}
-                </div>
-              ` : ''}
-            </div>
-          `
-        }).join('')
-
-        return `
-          <div style="background-color: #f9fafb; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
-            <h3 style="margin: 0 0 12px 0; color: #374151; font-size: 18px; font-weight: 600; display: flex; align-items: center;">
-              📺 TV ${tvNumber} (${gamesList.length} games)
-            </h3>
-            ${gamesHTML || '<p style="color: #9ca3af; text-align: center; margin: 16px 0;">No games assigned to this TV</p>'}
-          </div>
-        `
-      }).join('')
-  }
-
-  // Generate Recommendations HTML
-  let recommendationsHTML = ''
-  if (weekData.recommendations && weekData.recommendations.length > 0) {
-    recommendationsHTML = `
-      <div style="background-color: #dbeafe; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
-        <h3 style="margin: 0 0 12px 0; color: #1e40af; font-size: 18px; font-weight: 600;">
-          🤖 AI Recommendations
-        </h3>
-        <ul style="margin: 0; padding-left: 20px; color: #1e40af;">
-          ${weekData.recommendations.map(rec => `<li style="margin-bottom: 4px;">${rec}</li>`).join('')}
-        </ul>
-      </div>
-    `
-  }
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>AI-Optimized Sports Schedule</title>
-    </head>
-    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
-      <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
-        <header style="background: linear-gradient(135deg, #7c3aed 0%, #3b82f6 100%); color: white; padding: 32px 24px; text-align: center;">
-          <h1 style="margin: 0 0 8px 0; font-size: 32px; font-weight: bold; display: flex; align-items: center; justify-content: center;">
-            <span style="margin-right: 12px;">🧠</span>
-            AI-Optimized Viewing Plan
-          </h1>
-          <h2 style="margin: 0 0 8px 0; font-size: 24px; font-weight: 600; opacity: 0.9;">${weekRange}</h2>
-          ${weekData.weekSummary ? `<p style="margin: 0; font-size: 16px; opacity: 0.8;">${weekData.weekSummary}</p>` : ''}
-        </header>
-        
-        <div style="padding: 32px 24px;">
-          ${recommendationsHTML}
-          
-          <h2 style="color: #374151; font-size: 24px; font-weight: 600; margin: 0 0 16px 0;">
-            📺 TV Schedule
-          </h2>
-          ${tvScheduleHTML}
-          
-          <div style="background-color: #f3f4f6; border-radius: 8px; padding: 16px; margin-top: 24px;">
-            <h4 style="margin: 0 0 8px 0; color: #374151; font-size: 16px; font-weight: 600;">Priority Color Scale</h4>
-            <div style="display: flex; gap: 16px; flex-wrap: wrap; font-size: 14px;">
-              <div style="display: flex; align-items: center; gap: 8px;">
-                <div style="width: 16px; height: 16px; background-color: rgb(0, 165, 255); border-radius: 2px;"></div>
-                <span>High Priority</span>
-              </div>
-              <div style="display: flex; align-items: center; gap: 8px;">
-                <div style="width: 16px; height: 16px; background-color: rgb(128, 210, 128); border-radius: 2px;"></div>
-                <span>Medium Priority</span>
-              </div>
-              <div style="display: flex; align-items: center; gap: 8px;">
-                <div style="width: 16px; height: 16px; background-color: rgb(255, 255, 0); border-radius: 2px;"></div>
-                <span>Low Priority</span>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <footer style="background-color: #f3f4f6; padding: 16px 24px; text-align: center; color: #6b7280; font-size: 14px;">
-          <p style="margin: 0;">AI-Generated on ${new Date().toLocaleDateString('en-US', { 
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-            hour: 'numeric',
-            minute: '2-digit'
-          })}</p>
-        </footer>
-      </div>
-    </body>
-    </html>
-  `
-}
-
+// Sends weekData as the week's schedule or viewing plan, by email to recipientEmail and to each of
+// recipients by email or text message. With format: 'digest' and a date (YYYY-MM-DD), sends that
+// day of an optimized plan as the "tonight's TV plan" run sheet instead. Week emails attach the
+// week as an .ics calendar; venueId keeps a plan's events apart from other venues'. Texts only go to
+// numbers with a confirmed text message subscription at venueId, and end with its manage link.
 export async function POST(request: NextRequest) {
   try {
-    const { weekData, recipientEmail, isOptimizedCalendar } = await request.json()
+    const {
+      weekData,
+      recipientEmail,
+      recipients: requestedRecipients,
+      isOptimizedCalendar,
+      timeZone: requestedTimeZone,
+      channelLineup: requestedLineup,
+      format = 'week',
+      date,
+      venueId = DEFAULT_VENUE_ID
+    } = await request.json()
+
+    const parsedRecipients = parseRecipients(recipientEmail, requestedRecipients)
+    if (!weekData || 'error' in parsedRecipients) {
+      return NextResponse.json(
+        { error: 'error' in parsedRecipients ? parsedRecipients.error : 'Missing required fields: weekData and recipientEmail or recipients' },
+        { status: 400 }
+      )
+    }
 
-    if (!weekData || !recipientEmail) {
+    const invalidGameIndex = Array.isArray(weekData.games) ? findInvalidGame(weekData.games) : 0
+    if (invalidGameIndex !== -1) {
       return NextResponse.json(
-        { error: 'Missing required fields: weekData and recipientEmail' },
+        { error: `Invalid game at weekData.games[${invalidGameIndex}]` },
         { status: 400 }
       )
     }
 
-    const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
-    const emailHTML = isOptimizedCalendar ? generateOptimizedEmailHTML(weekData) : generateEmailHTML(weekData)
-    const subject = isOptimizedCalendar ? `AI-Optimized Viewing Plan - ${weekRange}` : `Sports Schedule - ${weekRange}`
+    if (typeof venueId !== 'string' || !isValidVenueId(venueId)) {
+      return NextResponse.json({ error: 'Invalid venueId' }, { status: 400 })
+    }
+    // Phone numbers must have opted in - confirmed and not since unsubscribed
+    const optedIn = new Map<string, Subscription>()
+    if (parsedRecipients.recipients.some(recipient => recipient.channel === 'sms')) {
+      (await listSubscriptions(venueId))
+        .filter(subscription => subscription.channel === 'sms' && subscription.status === 'active' && subscription.confirmedAt)
+        .forEach(subscription => optedIn.set(subscription.address, optedIn.get(subscription.address) ?? subscription))
+      const notOptedIn = parsedRecipients.recipients.find(recipient => recipient.channel === 'sms' && !optedIn.has(recipient.address))
+      if (notOptedIn) {
+        return NextResponse.json(
+          { error: `${notOptedIn.address} has not confirmed text messages from this venue` },
+          { status: 400 }
+        )
+      }
+    }
 
-    const { data, error } = await resend.emails.send({
-      from: 'Sports Schedule <onboarding@resend.dev>',
-      to: [recipientEmail],
-      subject: subject,
-      html: emailHTML,
-      replyTo: 'onboarding@resend.dev',
-    })
+    if (format !== 'week' && format !== 'digest') {
+      return NextResponse.json({ error: 'Invalid format, expected week or digest' }, { status: 400 })
+    }
+    if (format === 'digest') {
+      if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+        return NextResponse.json({ error: 'A digest needs a date (YYYY-MM-DD)' }, { status: 400 })
+      }
+      if (!isOptimizedCalendar || !weekData.games.every((game: Partial<OptimizedGame>) => typeof game.tvAssignment === 'number')) {
+        return NextResponse.json({ error: 'A digest needs an optimized plan with TV assignments' }, { status: 400 })
+      }
+    }
+
+    // Times are shown in the venue's zone; unknown zones fall back to the schedule's own
+    const timeZone = typeof requestedTimeZone === 'string' && isValidTimeZone(requestedTimeZone)
+      ? requestedTimeZone
+      : DEFAULT_TIME_ZONE
+
+    // Without a lineup, broadcasters are listed by name only
+    const channelLineup = isChannelLineup(requestedLineup) ? requestedLineup : getChannelLineup()
+
+    const attachments = format === 'week'
+      ? [getWeekCalendarAttachment(venueId, weekData, !!isOptimizedCalendar, channelLineup, await getDurationStats())]
+      : undefined
+    // Texts carry the subscriber's manage link, so every one has a way to opt out
+    const buildNotification = (links?: EmailFooterLinks) => format === 'digest'
+      ? { weekRange: date, ...buildDigestNotification(buildDailyDigest({ optimizedGames: weekData.games, tvs: weekData.tvs }, date, channelLineup), timeZone, links) }
+      : { ...buildScheduleNotification(weekData, !!isOptimizedCalendar, timeZone, channelLineup, links), attachments }
+    const { weekRange, ...notification } = buildNotification()
+    const appUrl = getAppUrl(request.nextUrl.origin)
+
+    // Every recipient is tried; the request fails only when nothing could be sent
+    const deliveries: Array<NotificationRecipient & { messageIds?: string[]; error?: string }> = []
+    for (const recipient of parsedRecipients.recipients) {
+      const subscription = recipient.channel === 'sms' ? optedIn.get(recipient.address) : undefined
+      try {
+        const message = subscription ? buildNotification(getSubscriptionLinks(subscription, appUrl)) : notification
+        deliveries.push({ ...recipient, messageIds: await sendNotification(recipient, message) })
+      } catch (error) {
+        console.error(`Failed to send to ${recipient.address}:`, error)
+        deliveries.push({ ...recipient, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
 
-    if (error) {
-      console.error('Resend error:', error)
+    const sent = deliveries.filter(delivery => delivery.messageIds)
+    if (sent.length === 0) {
       return NextResponse.json(
-        { error: 'Failed to send email', details: error },
+        { error: 'Failed to send', details: deliveries.map(delivery => delivery.error).join('; '), deliveries },
         { status: 500 }
       )
     }
 
     return NextResponse.json({ 
       success: true, 
-      messageId: data?.id,
-      weekRange 
+      messageId: sent[0].messageIds?.[0],
+      weekRange,
+      deliveries
     })
   } catch (error) {
     console.error('Email API error:', error)
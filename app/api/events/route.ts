@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidVenueId } from '@/lib/domain'
+import { getAdaptersForSports, SportsEvent } from '@/lib/leagues'
+import { parseScheduleFilters } from '@/lib/schedule-filters'
+import { getVenue } from '@/lib/venue-store'
+
+// GET ?venue=joes-bar runs the adapters for the venue's sportsInterests; ?sports=Basketball,Hockey
+// picks them directly
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const parsed = parseScheduleFilters(searchParams)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  let sportsInterests = (searchParams.get('sports') || '')
+    .split(',')
+    .map(sport => sport.trim())
+    .filter(Boolean)
+
+  const venueId = searchParams.get('venue')
+  if (venueId && sportsInterests.length === 0) {
+    if (!isValidVenueId(venueId)) {
+      return NextResponse.json({ error: 'Invalid venue' }, { status: 400 })
+    }
+    const venue = await getVenue(venueId)
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 })
+    }
+    sportsInterests = venue.preferences?.sportsInterests ?? []
+  }
+
+  const adapters = getAdaptersForSports(sportsInterests)
+  const range = { from: parsed.filters.from, to: parsed.filters.to }
+
+  // One failing league should not hide the others
+  const results = await Promise.allSettled(adapters.map(adapter => adapter.fetchEvents(range)))
+
+  const events: SportsEvent[] = []
+  const errors: Array<{ league: string; error: string }> = []
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      events.push(...result.value)
+    } else {
+      console.error(`Error fetching ${adapters[index].league} events:`, result.reason)
+      errors.push({ league: adapters[index].league, error: `Failed to fetch ${adapters[index].league} schedule` })
+    }
+  })
+
+  events.sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+  if (adapters.length > 0 && errors.length === adapters.length) {
+    return NextResponse.json({ error: 'Failed to fetch schedules', errors }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    leagues: adapters.map(adapter => adapter.league),
+    events,
+    errors
+  })
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLiveStatuses, getPollAfterSeconds } from '@/lib/live-scores'
+import { getScheduleSourceName } from '@/lib/nba-schedule'
+
+export async function GET(request: NextRequest) {
+  // gameIds=0022400561,0022400562 - defaults to every game today
+  const gameIds = (request.nextUrl.searchParams.get('gameIds') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+
+  try {
+    const { data, status, fetchedAt, ageSeconds, error } = await getLiveStatuses()
+    const games = gameIds.length > 0 ? data.filter(game => gameIds.includes(game.gameId)) : data
+
+    return NextResponse.json(
+      {
+        source: getScheduleSourceName(),
+        games,
+        pollAfterSeconds: getPollAfterSeconds(data),
+        cache: { status, fetchedAt, ageSeconds, error }
+      },
+      {
+        headers: {
+          'Age': String(ageSeconds),
+          'X-Cache': status.toUpperCase()
+        }
+      }
+    )
+  } catch (error) {
+    console.error('Error fetching live scores:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch live scores' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_VENUE_ID, isUserPreferences, isValidVenueId, isViewingPlan } from '@/lib/domain'
+import { getPlanWeekKey } from '@/lib/plan-history'
+import { getAuthorName, getPlanVersion, isValidWeekKey, listPlanVersions, savePlanVersion } from '@/lib/plan-store'
+
+// GET ?week=2025-01-13 lists the week's versions, newest first.
+// GET ?week=2025-01-13&version=3 (or version=latest) returns one version with its plan.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const venueId = searchParams.get('venue') || DEFAULT_VENUE_ID
+  const week = searchParams.get('week') || ''
+  const version = searchParams.get('version')
+
+  if (!isValidVenueId(venueId) || !isValidWeekKey(week)) {
+    return NextResponse.json({ error: 'Invalid venue or week' }, { status: 400 })
+  }
+
+  const versionNumber = version === null || version === 'latest' ? undefined : parseInt(version)
+  if (versionNumber !== undefined && !Number.isInteger(versionNumber)) {
+    return NextResponse.json({ error: 'Invalid version' }, { status: 400 })
+  }
+
+  try {
+    if (version === null) {
+      return NextResponse.json({ versions: await listPlanVersions(venueId, week) })
+    }
+
+    const entry = await getPlanVersion(venueId, week, versionNumber)
+    if (!entry) {
+      return NextResponse.json({ error: 'Plan version not found' }, { status: 404 })
+    }
+    return NextResponse.json(entry)
+  } catch (error) {
+    console.error('Failed to read saved plans:', error)
+    return NextResponse.json({ error: 'Failed to read saved plans' }, { status: 500 })
+  }
+}
+
+// Saves a hand-edited plan as a new version
+export async function POST(request: NextRequest) {
+  try {
+    const { venueId = DEFAULT_VENUE_ID, weekStart, generatedBy, basedOn, preferences, plan } = await request.json()
+
+    if (typeof weekStart !== 'string' || !isValidWeekKey(getPlanWeekKey(weekStart)) || typeof venueId !== 'string' || !isValidVenueId(venueId)) {
+      return NextResponse.json({ error: 'Invalid venueId or weekStart' }, { status: 400 })
+    }
+
+    if (!isUserPreferences(preferences) || !isViewingPlan(plan)) {
+      return NextResponse.json({ error: 'Invalid preferences or plan' }, { status: 400 })
+    }
+
+    const week = getPlanWeekKey(weekStart)
+    // Recommendations carry over from the version the edit started from
+    const base = typeof basedOn === 'number' ? await getPlanVersion(venueId, week, basedOn) : null
+
+    const saved = await savePlanVersion(venueId, week, {
+      generatedBy: getAuthorName(generatedBy),
+      producer: { assignments: 'manual', narrative: base?.producer.narrative ?? 'automatic' },
+      basedOn: base?.version,
+      preferences,
+      plan
+    })
+
+    return NextResponse.json({ version: saved.version, createdAt: saved.createdAt })
+  } catch (error) {
+    console.error('Failed to save plan:', error)
+    return NextResponse.json(
+      { error: 'Failed to save plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_VENUE_ID, isUserPreferences, isValidVenueId } from '@/lib/domain'
+import { getVenue, saveVenuePreferences } from '@/lib/venue-store'
+
+// GET ?venue=joes-bar returns { venueId, name, preferences, updatedAt }; preferences is null until saved
+export async function GET(request: NextRequest) {
+  const venueId = request.nextUrl.searchParams.get('venue') || DEFAULT_VENUE_ID
+
+  if (!isValidVenueId(venueId)) {
+    return NextResponse.json({ error: 'Invalid venue' }, { status: 400 })
+  }
+
+  try {
+    const venue = await getVenue(venueId)
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 })
+    }
+    return NextResponse.json({ venueId: venue.id, name: venue.name, preferences: venue.preferences, updatedAt: venue.updatedAt })
+  } catch (error) {
+    console.error('Failed to read preferences:', error)
+    return NextResponse.json({ error: 'Failed to read preferences' }, { status: 500 })
+  }
+}
+
+// { venueId, preferences } replaces the venue's preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const { venueId = DEFAULT_VENUE_ID, preferences } = await request.json()
+
+    if (typeof venueId !== 'string' || !isValidVenueId(venueId)) {
+      return NextResponse.json({ error: 'Invalid venueId' }, { status: 400 })
+    }
+
+    if (!isUserPreferences(preferences)) {
+      return NextResponse.json({ error: 'Invalid preferences' }, { status: 400 })
+    }
+
+    const venue = await saveVenuePreferences(venueId, preferences)
+    if (!venue) {
+      return NextResponse.json({ error: 'Venue not found' }, { status: 404 })
+    }
+    return NextResponse.json({ venueId: venue.id, updatedAt: venue.updatedAt })
+  } catch (error) {
+    console.error('Failed to save preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to save preferences', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,51 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
+import { isValidVenueId } from '@/lib/domain'
+import { getDurationStats } from '@/lib/duration-history'
+import { getNbaSchedule, getScheduleSourceName } from '@/lib/nba-schedule'
+import { filterGameDates, hasFilters, parseScheduleFilters } from '@/lib/schedule-filters'
+import { resolveTimeZone } from '@/lib/timezone'
+import { getVenue } from '@/lib/venue-store'
 
-export async function GET() {
+// venue=joes-bar resolves "today" in the venue's zone; an unknown venue falls back to Eastern Time
+async function getVenueTimeZone(venueId: string | null) {
+  if (!venueId || !isValidVenueId(venueId)) return undefined
+  const venue = await getVenue(venueId)
+  return venue ? resolveTimeZone(venue.preferences) : undefined
+}
+
+export async function GET(request: NextRequest) {
   try {
-    const response = await fetch('https://cdn.nba.com/static/json/staticData/scheduleLeagueV2.json', {
-      headers: {
-        'Accept': 'application/json',
-      },
-    })
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
+    const searchParams = request.nextUrl.searchParams
+    const parsed = parseScheduleFilters(searchParams, await getVenueTimeZone(searchParams.get('venue')))
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
     }
-    
-    const data = await response.json()
-    return NextResponse.json(data)
+
+    const { data, status, fetchedAt, ageSeconds, error } = await getNbaSchedule()
+    const { schedule, warnings } = data
+    const durationStats = await getDurationStats()
+
+    const leagueSchedule = hasFilters(parsed.filters)
+      ? { ...schedule.leagueSchedule, gameDates: filterGameDates(schedule.leagueSchedule.gameDates, parsed.filters) }
+      : schedule.leagueSchedule
+
+    // warnings describe schema drift in the snapshot being served; durationStats feed end time estimates
+    return NextResponse.json(
+      {
+        ...schedule,
+        leagueSchedule,
+        source: getScheduleSourceName(),
+        cache: { status, fetchedAt, ageSeconds, error },
+        warnings,
+        durationStats
+      },
+      {
+        headers: {
+          'Age': String(ageSeconds),
+          'X-Cache': status.toUpperCase()
+        }
+      }
+    )
   } catch (error) {
     console.error('Error fetching NBA schedule:', error)
     return NextResponse.json(
@@ -21,4 +53,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Subscription } from '@/lib/domain'
+import { SubscriptionChanges, getSubscriptionByToken, parseSubscriptionChanges, updateSubscriptionByToken } from '@/lib/subscription-store'
+import { getVenue } from '@/lib/venue-store'
+
+// The token in a recipient's links is all they have, so only their own subscription is shown
+async function toRecipientView(subscription: Subscription) {
+  const venue = await getVenue(subscription.venueId)
+  return {
+    channel: subscription.channel,
+    address: subscription.address,
+    venueName: venue?.name ?? subscription.venueId,
+    cadence: subscription.cadence,
+    sendTime: subscription.sendTime,
+    planType: subscription.planType,
+    status: subscription.status
+  }
+}
+
+// GET ?token=... returns the subscription the token belongs to
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || ''
+
+  try {
+    const subscription = await getSubscriptionByToken(token)
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+    return NextResponse.json(await toRecipientView(subscription))
+  } catch (error) {
+    console.error('Failed to read subscription:', error)
+    return NextResponse.json({ error: 'Failed to read subscription' }, { status: 500 })
+  }
+}
+
+// { token, action: 'confirm' | 'unsubscribe' | 'update', cadence?, sendTime? }. Confirming an
+// unsubscribed subscription starts it again.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    if (typeof body !== 'object' || body === null || typeof body.token !== 'string') {
+      return NextResponse.json({ error: 'Missing token' }, { status: 400 })
+    }
+
+    let changes: SubscriptionChanges
+    if (body.action === 'confirm') {
+      changes = { status: 'active' }
+    } else if (body.action === 'unsubscribe') {
+      changes = { status: 'unsubscribed' }
+    } else if (body.action === 'update') {
+      const parsed = parseSubscriptionChanges(body)
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      changes = parsed.changes
+    } else {
+      return NextResponse.json({ error: 'Invalid action, expected confirm, unsubscribe or update' }, { status: 400 })
+    }
+
+    const subscription = await updateSubscriptionByToken(body.token, changes)
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+    return NextResponse.json(await toRecipientView(subscription))
+  } catch (error) {
+    console.error('Failed to update subscription:', error)
+    return NextResponse.json(
+      { error: 'Failed to update subscription', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasCronSecret, isCronAuthorized } from '@/lib/cron-secret'
+import { DEFAULT_VENUE_ID, isValidVenueId } from '@/lib/domain'
+import { getAppUrl, sendConfirmation } from '@/lib/email-scheduler'
+import {
+  createSubscriptions,
+  deleteSubscription,
+  listSubscriptions,
+  maskAddress,
+  parseSubscriptionInput,
+  toSubscriptionSummary
+} from '@/lib/subscription-store'
+
+// GET ?venue=joes-bar lists the venue's subscriptions. Addresses are masked unless the request
+// carries CRON_SECRET (see lib/cron-secret.ts).
+export async function GET(request: NextRequest) {
+  const venueId = request.nextUrl.searchParams.get('venue') || DEFAULT_VENUE_ID
+
+  if (!isValidVenueId(venueId)) {
+    return NextResponse.json({ error: 'Invalid venue' }, { status: 400 })
+  }
+
+  try {
+    const revealAddresses = hasCronSecret(request)
+    const subscriptions = (await listSubscriptions(venueId))
+      .map(toSubscriptionSummary)
+      .map(summary => revealAddresses ? summary : { ...summary, address: maskAddress(summary) })
+    return NextResponse.json({ subscriptions })
+  } catch (error) {
+    console.error('Failed to read subscriptions:', error)
+    return NextResponse.json({ error: 'Failed to read subscriptions' }, { status: 500 })
+  }
+}
+
+// { venueId, channel, recipients, cadence, sendTime, planType } subscribes each recipient - email
+// addresses, or phone numbers with channel: 'sms' - and sends the pending ones a confirmation link.
+// Nothing else is sent to them until they confirm.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseSubscriptionInput(await request.json())
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const subscriptions = await createSubscriptions(parsed.input)
+    const appUrl = getAppUrl(request.nextUrl.origin)
+    const unsent: string[] = []
+    for (const subscription of subscriptions.filter(subscription => subscription.status === 'pending')) {
+      try {
+        await sendConfirmation(subscription, appUrl)
+      } catch (error) {
+        console.error(`Failed to send confirmation to ${subscription.address}:`, error)
+        unsent.push(subscription.address)
+      }
+    }
+
+    return NextResponse.json({
+      subscriptions: subscriptions.map(toSubscriptionSummary),
+      // Recipients whose confirmation couldn't be sent; adding them again resends it
+      confirmationFailed: unsent
+    })
+  } catch (error) {
+    console.error('Failed to create subscription:', error)
+    return NextResponse.json(
+      { error: 'Failed to create subscription', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE ?id=... removes a subscription; needs CRON_SECRET when it's set. Subscribers stop their
+// own with the unsubscribe link instead.
+export async function DELETE(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const id = request.nextUrl.searchParams.get('id')
+
+  if (!id) {
+    return NextResponse.json({ error: 'Missing id' }, { status: 400 })
+  }
+
+  try {
+    if (!await deleteSubscription(id)) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete subscription:', error)
+    return NextResponse.json({ error: 'Failed to delete subscription' }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updateSubscriptionByToken } from '@/lib/subscription-store'
+
+// One-click unsubscribe (RFC 8058): mail clients POST to the List-Unsubscribe URL, ?token=...
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || ''
+
+  try {
+    if (!await updateSubscriptionByToken(token, { status: 'unsubscribed' })) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to unsubscribe:', error)
+    return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createVenue, listVenues } from '@/lib/venue-store'
+
+// Venue ids and names, for picking which venue a device plans for
+export async function GET() {
+  try {
+    const venues = await listVenues()
+    return NextResponse.json({
+      venues: venues.map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    })
+  } catch (error) {
+    console.error('Failed to read venues:', error)
+    return NextResponse.json({ error: 'Failed to read venues' }, { status: 500 })
+  }
+}
+
+// { name } adds a venue with no preferences yet
+export async function POST(request: NextRequest) {
+  try {
+    const { name } = await request.json()
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Missing venue name' }, { status: 400 })
+    }
+
+    return NextResponse.json(await createVenue(name.trim().slice(0, 100)))
+  } catch (error) {
+    console.error('Failed to create venue:', error)
+    return NextResponse.json(
+      { error: 'Failed to create venue', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,178 +1,154 @@
 'use client'
 
 import { useState } from 'react'
-import { format, isSameDay } from 'date-fns'
+import { eachDayOfInterval, format, isSameDay, parseISO } from 'date-fns'
+import { Game, OptimizedGame, ViewingPlan } from '@/lib/domain'
+import type { DurationStat } from '@/lib/game-duration'
+import { PlanMove, buildTvSchedule, findMoveConflict, moveGame } from '@/lib/plan-edits'
+import { formatPriorityTitle } from '@/lib/priority-rules'
+import { formatGameStartTime } from '@/lib/timezone'
 
-interface Team {
-  teamId: number
-  teamName: string
-  teamCity: string
-  teamTricode: string
-  teamSlug: string
-  wins: number
-  losses: number
-  score: number
-  seed: number
+interface AICalendarProps {
+  generatedCalendar: ViewingPlan
+  weekStart: Date
+  weekEnd: Date
+  onGameClick: (game: Game) => void
+  timeZone: string
+  durationStats?: DurationStat[]
+  // Called with the edited plan when the manager saves it; without it the view is read-only
+  onSave?: (plan: Pick<ViewingPlan, 'optimizedGames' | 'tvSchedule'>) => void
+  // Hide the summary header and recommendations when the host already shows them
+  embedded?: boolean
 }
 
-interface Broadcaster {
-  broadcasterScope: string
-  broadcasterMedia: string
-  broadcasterId: number
-  broadcasterDisplay: string
-  broadcasterAbbreviation: string
-  broadcasterDescription: string
-  tapeDelayComments: string
-  broadcasterVideoLink: string
-  broadcasterTeamId: number
-  broadcasterRanking: number | null
-  localizationRegion: string
+// The plan's date for a game, as a local date - "2025-01-14" parsed as UTC lands on the 13th in the US
+function getPlanDate(game: OptimizedGame) {
+  return parseISO((game.assignedDate || game.gameDateEst).slice(0, 10))
 }
 
-interface Broadcasters {
-  nationalBroadcasters: Broadcaster[]
-  nationalRadioBroadcasters: Broadcaster[]
-  nationalOttBroadcasters: Broadcaster[]
-  homeTvBroadcasters: Broadcaster[]
-  homeRadioBroadcasters: Broadcaster[]
-  homeOttBroadcasters: Broadcaster[]
-  awayTvBroadcasters: Broadcaster[]
-  awayRadioBroadcasters: Broadcaster[]
-  awayOttBroadcasters: Broadcaster[]
-}
+export default function AICalendar({
+  generatedCalendar,
+  weekStart,
+  weekEnd,
+  onGameClick,
+  timeZone,
+  durationStats,
+  onSave,
+  embedded
+}: AICalendarProps) {
+  // Edits stay in a draft until saved; a new plan from the host replaces the draft
+  const [savedGames, setSavedGames] = useState(generatedCalendar.optimizedGames)
+  const [draftGames, setDraftGames] = useState(generatedCalendar.optimizedGames)
+  if (savedGames !== generatedCalendar.optimizedGames) {
+    setSavedGames(generatedCalendar.optimizedGames)
+    setDraftGames(generatedCalendar.optimizedGames)
+  }
+  const isEdited = draftGames !== savedGames
 
-interface Game {
-  gameId: string
-  gameCode: string
-  gameStatus: number
-  gameStatusText: string
-  gameSequence: number
-  gameDateEst: string
-  gameTimeEst: string
-  gameDateTimeEst: string
-  gameDateUTC: string
-  gameTimeUTC: string
-  gameDateTimeUTC: string
-  awayTeamTime: string
-  homeTeamTime: string
-  day: string
-  monthNum: number
-  weekNumber: number
-  weekName: string
-  ifNecessary: string
-  seriesGameNumber: string
-  gameLabel: string
-  gameSubLabel: string
-  seriesText: string
-  arenaName: string
-  arenaState: string
-  arenaCity: string
-  postponedStatus: string
-  branchLink: string
-  gameSubtype: string
-  isNeutral: boolean
-  broadcasters: Broadcasters
-  homeTeam: Team
-  awayTeam: Team
-  pointsLeaders: unknown[]
-}
+  const [dragging, setDragging] = useState<Omit<PlanMove, 'toTv'> | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ tvNumber: number; conflict: string | null } | null>(null)
 
-interface OptimizedGame extends Game {
-  priority: number
-  tvAssignment: number
-  color: string
-  reasoning: string
-  assignedDate?: string
-  assignedTimeSlot?: string
-}
+  const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd })
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(() =>
+    weekDays.find(day => isSameDay(day, new Date())) ??
+    weekDays.find(day => generatedCalendar.optimizedGames.some(game => isSameDay(getPlanDate(game), day))) ??
+    weekDays[0]
+  )
 
-interface AICalendarProps {
-  generatedCalendar: {
-    optimizedGames: OptimizedGame[]
-    tvSchedule: Record<number, OptimizedGame[]>
-    recommendations: string[]
-    weekSummary: string
+  const tvNumbers = Object.keys(generatedCalendar.tvSchedule).map(tvNumber => parseInt(tvNumber))
+  const getTvName = (tvNumber: number) => {
+    return generatedCalendar.tvs?.find(tv => tv.tvNumber === tvNumber)?.name ?? `TV ${tvNumber}`
   }
-  weekStart: Date
-  weekEnd: Date
-  onGameClick: (game: Game) => void
-}
-
-export default function AICalendar({ 
-  generatedCalendar, 
-  weekStart, 
-  weekEnd, 
-  onGameClick 
-}: AICalendarProps) {
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date())
 
   // Get games for a specific date
   const getGamesForDate = (date: Date) => {
-    // Get unique games for this date (since AI assigns same game to multiple TVs)
+    // Get unique games for this date (since the plan can put the same game on several TVs)
     const gamesMap = new Map<string, OptimizedGame>()
-    
-    generatedCalendar.optimizedGames.forEach(game => {
-      const gameDate = game.assignedDate ? new Date(game.assignedDate) : new Date(game.gameDateEst)
-      if (isSameDay(gameDate, date)) {
+
+    draftGames.forEach(game => {
+      if (isSameDay(getPlanDate(game), date)) {
         // Use gameId as key to avoid duplicates
         gamesMap.set(game.gameId, game)
       }
     })
-    
+
     return Array.from(gamesMap.values())
   }
 
-  // Get dates that have games
-  const datesWithGames = generatedCalendar.optimizedGames.map(game => 
-    game.assignedDate ? new Date(game.assignedDate) : new Date(game.gameDateEst)
-  ).filter((date, index, self) => 
-    index === self.findIndex(d => isSameDay(d, date))
-  )
-
   // Get TV schedule for selected date
   const getTVScheduleForDate = (date: Date) => {
-    const schedule: Record<number, OptimizedGame[]> = {}
-    
-    Object.entries(generatedCalendar.tvSchedule).forEach(([tvNumber, games]) => {
-      schedule[parseInt(tvNumber)] = games.filter(game => {
-        // Check both gameDateEst and assignedDate since the AI assigns dates differently
-        const gameDate = game.assignedDate ? new Date(game.assignedDate) : new Date(game.gameDateEst)
-        return isSameDay(gameDate, date)
-      })
-    })
-    
-    return schedule
+    return buildTvSchedule(draftGames.filter(game => isSameDay(getPlanDate(game), date)), tvNumbers)
   }
 
   const selectedDateGames = selectedDate ? getGamesForDate(selectedDate) : []
   const selectedDateTVSchedule = selectedDate ? getTVScheduleForDate(selectedDate) : {}
-  const numberOfTVs = Object.keys(generatedCalendar.tvSchedule).length
+  const numberOfTVs = tvNumbers.length
+
+  // Checked on every dragover so the column shows whether the drop would fit
+  const handleDragOver = (event: React.DragEvent, tvNumber: number) => {
+    if (!dragging) return
+    const conflict = findMoveConflict(draftGames, { ...dragging, toTv: tvNumber }, durationStats)
+    if (!conflict) event.preventDefault()
+    event.dataTransfer.dropEffect = conflict ? 'none' : 'move'
+    if (dropTarget?.tvNumber !== tvNumber || dropTarget.conflict !== conflict) {
+      setDropTarget({ tvNumber, conflict })
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent, tvNumber: number) => {
+    event.preventDefault()
+    if (dragging && !findMoveConflict(draftGames, { ...dragging, toTv: tvNumber }, durationStats)) {
+      setDraftGames(games => moveGame(games, { ...dragging, toTv: tvNumber }))
+    }
+    setDragging(null)
+    setDropTarget(null)
+  }
+
+  const getColumnClassName = (tvNumber: number) => {
+    if (dropTarget?.tvNumber !== tvNumber) return 'border-gray-200'
+    return dropTarget.conflict ? 'border-red-400 bg-red-50' : 'border-green-400 bg-green-50'
+  }
 
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden">
       {/* Header */}
-      <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white p-6">
-        <h3 className="text-2xl font-bold flex items-center mb-2">
-          <svg className="w-7 h-7 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />                              
-          </svg>
-          AI-Optimized Calendar
-        </h3>
-        <p className="text-purple-100">{generatedCalendar.weekSummary}</p>
-      </div>
+      {!embedded && (
+        <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white p-6">
+          <h3 className="text-2xl font-bold flex items-center mb-2">
+            <svg className="w-7 h-7 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+            </svg>
+            AI-Optimized Calendar
+          </h3>
+          <p className="text-purple-100">{generatedCalendar.weekSummary}</p>
+        </div>
+      )}
 
       <div className="grid lg:grid-cols-2 gap-6 p-6">
         {/* Calendar Section */}
         <div>
           <h4 className="text-lg font-semibold mb-4 text-gray-900">Select a Day</h4>
           <div className="border rounded-lg p-4 bg-white">
-            <div className="text-center py-8 text-gray-500">
-              <div className="text-4xl mb-2">📅</div>
-              <p>Calendar component removed</p>
-              <p className="text-sm mt-2">Click on games below to view details</p>
+            <div className="grid grid-cols-7 gap-2">
+              {weekDays.map(day => {
+                const hasGames = draftGames.some(game => isSameDay(getPlanDate(game), day))
+                const isSelected = selectedDate !== undefined && isSameDay(day, selectedDate)
+                return (
+                  <button
+                    key={day.toISOString()}
+                    onClick={() => setSelectedDate(day)}
+                    className={`flex flex-col items-center py-2 rounded-lg text-sm transition-colors ${isSelected ? 'ring-2 ring-purple-500' : ''} ${
+                      hasGames ? 'bg-blue-500 text-white hover:bg-blue-600' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                    }`}
+                  >
+                    <span className="text-xs font-medium">{format(day, 'EEE')}</span>
+                    <span className="font-bold">{format(day, 'd')}</span>
+                  </button>
+                )
+              })}
             </div>
           </div>
-          
+
           {/* Legend */}
           <div className="mt-4 text-sm text-gray-600">
             <div className="flex items-center space-x-4">
@@ -193,7 +169,7 @@ export default function AICalendar({
           <h4 className="text-lg font-semibold mb-4 text-gray-900">
             {selectedDate ? format(selectedDate, 'EEEE, MMMM d, yyyy') : 'Select a date'}
           </h4>
-          
+
           {selectedDate && selectedDateGames.length === 0 && (
             <div className="text-center py-8 text-gray-500">
               <div className="text-4xl mb-2">📅</div>
@@ -216,31 +192,31 @@ export default function AICalendar({
               <div className="space-y-2">
                 <h5 className="font-medium text-gray-900">Games Today:</h5>
                 {selectedDateGames
-                  .sort((a, b) => a.gameStatusText.localeCompare(b.gameStatusText))
+                  .sort((a, b) => a.gameDateTimeUTC.localeCompare(b.gameDateTimeUTC))
                   .map(game => (
-                    <div 
+                    <div
                       key={game.gameId}
-                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"                                                                        
+                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg cursor-pointer hover:bg-gray-100 transition-colors"
                       onClick={() => onGameClick(game)}
                     >
                       <div className="flex items-center space-x-3">
                         {/* Day Badge */}
-                        <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs font-bold">                                                                                                           
-                          {format(game.assignedDate ? new Date(game.assignedDate) : new Date(game.gameDateEst), 'EEE').toUpperCase()}                                                                                   
+                        <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded-full text-xs font-bold">
+                          {format(getPlanDate(game), 'EEE').toUpperCase()}
                         </span>
                         <div>
                           <div className="font-medium text-sm">
                             {game.awayTeam.teamTricode} @ {game.homeTeam.teamTricode}
                           </div>
                           <div className="text-xs text-gray-600">
-                            {game.gameStatusText}
+                            {formatGameStartTime(game, timeZone)}
                           </div>
                         </div>
                       </div>
-                      <div 
+                      <div
                         className="w-4 h-4 rounded-full"
                         style={{ backgroundColor: game.color }}
-                        title={`Priority: ${game.priority}/10`}
+                        title={formatPriorityTitle(game.priority, game.priorityBreakdown)}
                       ></div>
                     </div>
                   ))
@@ -254,69 +230,117 @@ export default function AICalendar({
       {/* TV Schedule for Selected Date */}
       {selectedDate && selectedDateGames.length > 0 && (
         <div className="border-t bg-gray-50 p-6">
-          <h4 className="text-lg font-semibold mb-4 text-gray-900">
-            TV Schedule for {format(selectedDate, 'MMM d')}
-          </h4>
-          
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h4 className="text-lg font-semibold text-gray-900">
+              TV Schedule for {format(selectedDate, 'MMM d')}
+            </h4>
+            {onSave && (
+              <div className="flex items-center space-x-3">
+                <span className="text-sm text-gray-500">
+                  {isEdited ? 'Unsaved changes' : 'Drag a game to another TV to move it'}
+                </span>
+                {isEdited && (
+                  <>
+                    <button
+                      onClick={() => setDraftGames(savedGames)}
+                      className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Discard
+                    </button>
+                    <button
+                      onClick={() => onSave({ optimizedGames: draftGames, tvSchedule: buildTvSchedule(draftGames, tvNumbers) })}
+                      className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+                    >
+                      Save as this week&apos;s plan
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Horizontal Scrollable TV Schedule */}
           <div className="overflow-x-auto">
-            <div 
+            <div
               className="flex space-x-4 pb-4"
               style={{ minWidth: `${numberOfTVs * 280}px` }}
             >
               {Object.entries(selectedDateTVSchedule)
                 .sort(([a], [b]) => parseInt(a) - parseInt(b))
                 .map(([tvNumber, tvGames]) => (
-                  <div 
+                  <div
                     key={tvNumber}
-                    className="flex-shrink-0 w-64 bg-white rounded-xl border-2 border-gray-200 p-4"
+                    className={`flex-shrink-0 w-64 bg-white rounded-xl border-2 p-4 transition-colors ${getColumnClassName(parseInt(tvNumber))}`}
+                    onDragOver={onSave ? (e) => handleDragOver(e, parseInt(tvNumber)) : undefined}
+                    onDragLeave={() => setDropTarget(target => target?.tvNumber === parseInt(tvNumber) ? null : target)}
+                    onDrop={onSave ? (e) => handleDrop(e, parseInt(tvNumber)) : undefined}
                   >
                     {/* TV Header */}
                     <div className="flex items-center justify-center mb-4">
-                      <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white px-4 py-2 rounded-lg font-bold text-sm">                                                                                    
-                        📺 TV {tvNumber}
+                      <div className="bg-gradient-to-r from-gray-800 to-gray-700 text-white px-4 py-2 rounded-lg font-bold text-sm">
+                        📺 {getTvName(parseInt(tvNumber))}
                       </div>
                     </div>
-                    
+
+                    {/* Why the dragged game can't go here */}
+                    {dropTarget?.tvNumber === parseInt(tvNumber) && dropTarget.conflict && (
+                      <div className="mb-3 text-xs text-center text-red-700 font-medium">
+                        {dropTarget.conflict}
+                      </div>
+                    )}
+
                     {/* TV Games */}
                     {tvGames.length === 0 ? (
                       <div className="text-center py-6 text-gray-400">
                         <div className="text-2xl mb-2">📺</div>
-                        <div className="text-sm">No games</div>
+                        <div className="text-sm">{onSave ? 'No games - drop one here' : 'No games'}</div>
                       </div>
                     ) : (
                       <div className="space-y-3">
                         {tvGames
-                          .sort((a, b) => a.gameStatusText.localeCompare(b.gameStatusText))
+                          .sort((a, b) => a.gameDateTimeUTC.localeCompare(b.gameDateTimeUTC))
                           .map((game, index) => (
                             <div key={`${game.gameId}-${index}`}>
                               {/* Game Card */}
-                              <div 
-                                className="p-3 rounded-lg cursor-pointer hover:scale-105 transition-all duration-200 shadow-sm border"                                                                                  
+                              <div
+                                className={`p-3 rounded-lg hover:scale-105 transition-all duration-200 shadow-sm border ${onSave ? 'cursor-grab' : 'cursor-pointer'}`}
                                 style={{ backgroundColor: game.color, borderColor: game.color }}
                                 onClick={() => onGameClick(game)}
                                 title={game.reasoning}
+                                draggable={!!onSave}
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move'
+                                  e.dataTransfer.setData('text/plain', game.gameId)
+                                  setDragging({ gameId: game.gameId, fromTv: game.tvAssignment })
+                                }}
+                                onDragEnd={() => {
+                                  setDragging(null)
+                                  setDropTarget(null)
+                                }}
                               >
                                 <div className="text-white">
                                   {/* Day of Week Badge */}
                                   <div className="flex justify-center mb-2">
-                                    <span className="bg-white bg-opacity-20 text-white px-2 py-1 rounded-full text-xs font-bold">                                                                                       
-                                      {format(game.assignedDate ? new Date(game.assignedDate) : new Date(game.gameDateEst), 'EEE').toUpperCase()}                                                                       
+                                    <span className="bg-white bg-opacity-20 text-white px-2 py-1 rounded-full text-xs font-bold">
+                                      {format(getPlanDate(game), 'EEE').toUpperCase()}
                                     </span>
                                   </div>
-                                  
+
                                   <div className="font-bold text-center text-sm mb-1">
                                     {game.awayTeam.teamTricode} @ {game.homeTeam.teamTricode}
                                   </div>
                                   <div className="text-xs text-center opacity-90 font-medium">
-                                    {game.assignedTimeSlot || game.gameStatusText}
+                                    {game.assignedTimeSlot || formatGameStartTime(game, timeZone)}
                                   </div>
-                                  <div className="text-xs text-center opacity-75 mt-1">
+                                  <div
+                                    className="text-xs text-center opacity-75 mt-1"
+                                    title={formatPriorityTitle(game.priority, game.priorityBreakdown)}
+                                  >
                                     Priority: {game.priority}/10
                                   </div>
                                 </div>
                               </div>
-                              
+
                               {/* Transition Arrow */}
                               {index < tvGames.length - 1 && (
                                 <div className="flex justify-center py-2">
@@ -334,7 +358,7 @@ export default function AICalendar({
             </div>
           </div>
 
-          {/* Scroll Hint */}s of g
+          {/* Scroll Hint */}
           {numberOfTVs > 4 && (
             <div className="text-center text-sm text-gray-500 mt-2">
               ← Scroll horizontally to see all {numberOfTVs} TVs →
@@ -344,17 +368,19 @@ export default function AICalendar({
       )}
 
       {/* Recommendations */}
-      <div className="border-t bg-blue-50 p-6">
-        <h4 className="font-semibold text-blue-900 mb-3">AI Recommendations</h4>
-        <ul className="text-sm text-blue-800 space-y-1">
-          {generatedCalendar.recommendations.map((rec: string, index: number) => (
-            <li key={index} className="flex items-start space-x-2">
-              <span className="text-blue-600 mt-1">•</span>
-              <span>{rec}</span>
-            </li>
-          ))}
-        </ul>
-      </div>
+      {!embedded && (
+        <div className="border-t bg-blue-50 p-6">
+          <h4 className="font-semibold text-blue-900 mb-3">AI Recommendations</h4>
+          <ul className="text-sm text-blue-800 space-y-1">
+            {generatedCalendar.recommendations.map((rec: string, index: number) => (
+              <li key={index} className="flex items-start space-x-2">
+                <span className="text-blue-600 mt-1">•</span>
+                <span>{rec}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
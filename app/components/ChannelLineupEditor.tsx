@@ -0,0 +1,103 @@
+'use client'
+
+import type { ChannelOverride } from '@/lib/domain'
+import { CHANNEL_PROVIDERS } from '@/lib/data/channel-lineups'
+
+interface ChannelLineupEditorProps {
+  providerId?: string
+  overrides: ChannelOverride[]
+  onChange: (changes: { channelProvider?: string; channelOverrides: ChannelOverride[] }) => void
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+
+export default function ChannelLineupEditor({ providerId, overrides, onChange }: ChannelLineupEditorProps) {
+  const updateOverride = (index: number, changes: Partial<ChannelOverride>) => {
+    onChange({
+      channelProvider: providerId,
+      channelOverrides: overrides.map((override, i) => i === index ? { ...override, ...changes } : override)
+    })
+  }
+
+  return (
+    <div>
+      <select
+        value={providerId ?? ''}
+        onChange={(e) => onChange({ channelProvider: e.target.value || undefined, channelOverrides: overrides })}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+        aria-label="TV provider"
+      >
+        <option value="">No provider - overrides only</option>
+        {CHANNEL_PROVIDERS.map(provider => (
+          <option key={provider.id} value={provider.id}>{provider.name}</option>
+        ))}
+      </select>
+
+      {overrides.length > 0 && (
+        <div className="mt-3 overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-2 py-2">Network</th>
+                <th className="px-2 py-2">Broadcaster ID</th>
+                <th className="px-2 py-2">Channel</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {overrides.map((override, index) => (
+                <tr key={index} className="border-t border-gray-100">
+                  <td className="px-2 py-1 min-w-40">
+                    <input
+                      type="text"
+                      value={override.broadcasterDisplay}
+                      onChange={(e) => updateOverride(index, { broadcasterDisplay: e.target.value })}
+                      placeholder="NBC Sports Bay Area"
+                      className={inputClassName}
+                      aria-label={`Override ${index + 1} network`}
+                    />
+                  </td>
+                  <td className="px-2 py-1 w-32">
+                    <input
+                      type="number"
+                      value={override.broadcasterId ?? ''}
+                      onChange={(e) => updateOverride(index, { broadcasterId: e.target.value ? parseInt(e.target.value) : undefined })}
+                      placeholder="Optional"
+                      className={inputClassName}
+                      aria-label={`Override ${index + 1} broadcaster ID`}
+                    />
+                  </td>
+                  <td className="px-2 py-1 w-28">
+                    <input
+                      type="text"
+                      value={override.channel}
+                      onChange={(e) => updateOverride(index, { channel: e.target.value })}
+                      placeholder="696"
+                      className={inputClassName}
+                      aria-label={`Override ${index + 1} channel`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <button
+                      onClick={() => onChange({ channelProvider: providerId, channelOverrides: overrides.filter((_, i) => i !== index) })}
+                      className="text-sm text-gray-400 hover:text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        onClick={() => onChange({ channelProvider: providerId, channelOverrides: [...overrides, { broadcasterDisplay: '', channel: '' }] })}
+        className="mt-3 px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+      >
+        Add channel
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { NotificationChannelName, SubscriptionCadence, SubscriptionPlanType, SubscriptionStatus, SubscriptionSummary } from '@/lib/domain'
+
+interface EmailSubscriptionsEditorProps {
+  venueId: string
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+
+const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  daily: 'Every morning - the day\'s games',
+  weekly: 'Mondays - the week ahead'
+}
+
+const PLAN_TYPE_LABELS: Record<SubscriptionPlanType, string> = {
+  schedule: 'Game schedule',
+  optimized: 'Saved TV plan'
+}
+
+const CHANNEL_LABELS: Record<NotificationChannelName, string> = {
+  email: 'Email',
+  sms: 'Text message'
+}
+
+const RECIPIENT_PLACEHOLDERS: Record<NotificationChannelName, string> = {
+  email: 'manager@example.com, bar@example.com',
+  sms: '(415) 555-0123, +14155550188'
+}
+
+const STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  pending: 'Awaiting confirmation',
+  active: 'Active',
+  unsubscribed: 'Unsubscribed'
+}
+
+// Recipients are edited as a comma-separated list
+function parseRecipients(value: string) {
+  return value.split(',').map(recipient => recipient.trim()).filter(Boolean)
+}
+
+export default function EmailSubscriptionsEditor({ venueId }: EmailSubscriptionsEditorProps) {
+  const [subscriptions, setSubscriptions] = useState<SubscriptionSummary[]>([])
+  const [channel, setChannel] = useState<NotificationChannelName>('email')
+  const [recipients, setRecipients] = useState('')
+  const [cadence, setCadence] = useState<SubscriptionCadence>('daily')
+  const [sendTime, setSendTime] = useState('09:00')
+  const [planType, setPlanType] = useState<SubscriptionPlanType>('optimized')
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSubscriptions = async () => {
+      try {
+        const response = await fetch(`/api/subscriptions?venue=${venueId}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load email subscriptions')
+        }
+        if (!cancelled) setSubscriptions(result.subscriptions)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load email subscriptions')
+      }
+    }
+
+    loadSubscriptions()
+    return () => {
+      cancelled = true
+    }
+  }, [venueId])
+
+  const addSubscription = async () => {
+    try {
+      const response = await fetch('/api/subscriptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ venueId, channel, recipients: parseRecipients(recipients), cadence, sendTime, planType })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add email subscription')
+      }
+      const added: SubscriptionSummary[] = result.subscriptions
+      setSubscriptions(current => [...current.filter(subscription => !added.some(({ id }) => id === subscription.id)), ...added])
+      setRecipients('')
+      setError(result.confirmationFailed.length > 0 ? `Couldn't send a confirmation email to ${result.confirmationFailed.join(', ')}` : null)
+      setNotice(added.some(subscription => subscription.status === 'pending') ? 'Recipients get a link to confirm; nothing is sent until they do.' : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add email subscription')
+    }
+  }
+
+  const removeSubscription = async (id: string) => {
+    try {
+      const response = await fetch(`/api/subscriptions?id=${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to remove email subscription')
+      }
+      setSubscriptions(current => current.filter(subscription => subscription.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove email subscription')
+    }
+  }
+
+  return (
+    <div>
+      {subscriptions.length > 0 && (
+        <div className="mb-3 border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className="flex items-start justify-between gap-4 px-3 py-2 text-sm">
+              <div>
+                <div className="text-gray-900">
+                  {subscription.address}
+                  <span className={`ml-2 text-xs ${subscription.status === 'active' ? 'text-green-700' : 'text-gray-500'}`}>
+                    {STATUS_LABELS[subscription.status]}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {CHANNEL_LABELS[subscription.channel]} · {CADENCE_LABELS[subscription.cadence]} at {subscription.sendTime} · {PLAN_TYPE_LABELS[subscription.planType]}
+                  {subscription.lastSentOn && ` · last sent for ${subscription.lastSentOn}`}
+                </div>
+                {subscription.lastError && (
+                  <div className="text-xs text-red-600">Last attempt failed: {subscription.lastError}</div>
+                )}
+              </div>
+              <button onClick={() => removeSubscription(subscription.id)} className="text-xs text-red-600 hover:text-red-800">
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <select value={channel} onChange={(e) => setChannel(e.target.value as NotificationChannelName)} className={inputClassName} aria-label="Send by">
+          {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={recipients}
+          onChange={(e) => setRecipients(e.target.value)}
+          placeholder={RECIPIENT_PLACEHOLDERS[channel]}
+          className={`${inputClassName} flex-1 min-w-64`}
+          aria-label="Recipients"
+        />
+        <select value={cadence} onChange={(e) => setCadence(e.target.value as SubscriptionCadence)} className={inputClassName} aria-label="Cadence">
+          {Object.entries(CADENCE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="time"
+          value={sendTime}
+          onChange={(e) => setSendTime(e.target.value)}
+          className={inputClassName}
+          aria-label="Send time"
+        />
+        <select value={planType} onChange={(e) => setPlanType(e.target.value as SubscriptionPlanType)} className={inputClassName} aria-label="Email contents">
+          {Object.entries(PLAN_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <button
+          onClick={addSubscription}
+          disabled={parseRecipients(recipients).length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400 text-sm font-medium"
+        >
+          Add
+        </button>
+      </div>
+      {notice && <p className="text-xs text-gray-600 mt-2">{notice}</p>}
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
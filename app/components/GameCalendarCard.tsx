@@ -1,76 +1,8 @@
-interface Team {
-  teamId: number
-  teamName: string
-  teamCity: string
-  teamTricode: string
-  teamSlug: string
-  wins: number
-  losses: number
-  score: number
-  seed: number
-}
-
-interface Broadcaster {
-  broadcasterScope: string
-  broadcasterMedia: string
-  broadcasterId: number
-  broadcasterDisplay: string
-  broadcasterAbbreviation: string
-  broadcasterDescription: string
-  tapeDelayComments: string
-  broadcasterVideoLink: string
-  broadcasterTeamId: number
-  broadcasterRanking: number | null
-  localizationRegion: string
-}
-
-interface Broadcasters {
-  nationalBroadcasters: Broadcaster[]
-  nationalRadioBroadcasters: Broadcaster[]
-  nationalOttBroadcasters: Broadcaster[]
-  homeTvBroadcasters: Broadcaster[]
-  homeRadioBroadcasters: Broadcaster[]
-  homeOttBroadcasters: Broadcaster[]
-  awayTvBroadcasters: Broadcaster[]
-  awayRadioBroadcasters: Broadcaster[]
-  awayOttBroadcasters: Broadcaster[]
-}
-
-interface Game {
-  gameId: string
-  gameCode: string
-  gameStatus: number
-  gameStatusText: string
-  gameSequence: number
-  gameDateEst: string
-  gameTimeEst: string
-  gameDateTimeEst: string
-  gameDateUTC: string
-  gameTimeUTC: string
-  gameDateTimeUTC: string
-  awayTeamTime: string
-  homeTeamTime: string
-  day: string
-  monthNum: number
-  weekNumber: number
-  weekName: string
-  ifNecessary: string
-  seriesGameNumber: string
-  gameLabel: string
-  gameSubLabel: string
-  seriesText: string
-  arenaName: string
-  arenaState: string
-  arenaCity: string
-  postponedStatus: string
-  branchLink: string
-  gameSubtype: string
-  isNeutral: boolean
-  broadcasters: Broadcasters
-  homeTeam: Team
-  awayTeam: Team
-  pointsLeaders: unknown[]
-}
+import { ChannelLineup, Game, LiveGameStatus } from '@/lib/domain'
+import { getFeedAvailability } from '@/lib/blackouts'
+import { getChannelLineup, tuneBroadcaster } from '@/lib/channel-lineup'
+import { formatGameStartTime } from '@/lib/timezone'
+import { LiveStatusBadge } from './LiveStatusBadge'
 
 interface GameCalendarCardProps {
   game: Game
@@ -79,22 +11,18 @@ interface GameCalendarCardProps {
   optimizedColor?: string
   tvAssignments?: number[]  // Changed to array to show multiple TVs
   priority?: number
+  liveStatus?: LiveGameStatus
+  timeZone: string
+  channelLineup?: ChannelLineup
+  // The venue's zip code; feeds blacked out in its market are left off
+  zipCode?: string
 }
 
-export function GameCalendarCard({ game, position, onGameClick, optimizedColor, tvAssignments, priority }: GameCalendarCardProps) {
-  const getAllBroadcasters = (broadcasters: Broadcasters) => {
-    const allBroadcasters = [
-      ...broadcasters.nationalBroadcasters,
-      ...broadcasters.homeTvBroadcasters,
-      ...broadcasters.homeRadioBroadcasters,
-      ...broadcasters.awayTvBroadcasters,
-      ...broadcasters.awayRadioBroadcasters
-    ]
-    
-    return allBroadcasters
-      .filter(broadcaster => broadcaster.broadcasterDisplay !== 'TBD' && broadcaster.broadcasterDisplay)
-      .map(broadcaster => broadcaster.broadcasterDisplay)
-  }
+export function GameCalendarCard({ game, position, onGameClick, optimizedColor, tvAssignments, priority, liveStatus, timeZone, channelLineup, zipCode }: GameCalendarCardProps) {
+  const { visible, blackedOut } = getFeedAvailability(game, zipCode ?? '')
+  const broadcasters = visible.map(feed => tuneBroadcaster(feed.broadcaster, channelLineup ?? getChannelLineup()))
+  // Lead with a broadcaster the venue can tune by channel number
+  const leadBroadcaster = broadcasters.find(broadcaster => broadcaster.channel) ?? broadcasters[0]
 
   // Generate dynamic styles based on optimization
   const cardStyle = optimizedColor ? {
@@ -142,8 +70,13 @@ export function GameCalendarCard({ game, position, onGameClick, optimizedColor,
 
       {/* Game Time */}
       <div className={`font-bold mb-1 text-center text-xs ${optimizedColor ? 'text-gray-800' : 'text-blue-700'}`}>
-        {game.gameStatusText}
+        {formatGameStartTime(game, timeZone)}
       </div>
+      {liveStatus && (
+        <div className="text-center mb-1">
+          <LiveStatusBadge status={liveStatus} />
+        </div>
+      )}
       
       {/* Teams */}
       <div className="flex items-center justify-between mb-1">
@@ -163,22 +96,27 @@ export function GameCalendarCard({ game, position, onGameClick, optimizedColor,
 
       {/* Broadcast Information */}
       <div className="border-t border-blue-200 pt-1 mt-1">
-        {getAllBroadcasters(game.broadcasters).length > 0 ? (
+        {leadBroadcaster ? (
           <div className="text-center">
             <div className="flex items-center justify-center space-x-1">
               <svg className="w-2 h-2 text-green-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
               <span className="text-green-800 font-bold text-xs truncate">
-                {getAllBroadcasters(game.broadcasters)[0].length > 8 ? 
-                  getAllBroadcasters(game.broadcasters)[0].substring(0, 8) + '...' : 
-                  getAllBroadcasters(game.broadcasters)[0]
+                {leadBroadcaster.name.length > 8 ? 
+                  leadBroadcaster.name.substring(0, 8) + '...' : 
+                  leadBroadcaster.name
                 }
               </span>
             </div>
-            {getAllBroadcasters(game.broadcasters).length > 1 && (
+            {leadBroadcaster.channel && (
+              <div className="text-green-900 text-xs font-bold">
+                ch {leadBroadcaster.channel}
+              </div>
+            )}
+            {broadcasters.length > 1 && (
               <div className="text-green-700 text-xs font-medium">
-                +{getAllBroadcasters(game.broadcasters).length - 1}
+                +{broadcasters.length - 1}
               </div>
             )}
           </div>
@@ -188,7 +126,7 @@ export function GameCalendarCard({ game, position, onGameClick, optimizedColor,
               <svg className="w-2 h-2 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
-              <span className="text-gray-600 font-bold text-xs">TBD</span>
+              <span className="text-gray-600 font-bold text-xs">{blackedOut.length > 0 ? 'Blacked out' : 'TBD'}</span>
             </div>
           </div>
         )}
@@ -0,0 +1,27 @@
+import type { LiveGameStatus } from '@/lib/domain'
+import { formatLiveStatus, formatScore, isFinal, isInProgress, isOvertime } from '@/lib/live-status'
+
+interface LiveStatusBadgeProps {
+  status?: LiveGameStatus
+  size?: 'sm' | 'lg'
+}
+
+// Score and period for games that have tipped off; renders nothing before tip-off
+export function LiveStatusBadge({ status, size = 'sm' }: LiveStatusBadgeProps) {
+  if (!status || (!isInProgress(status) && !isFinal(status))) return null
+
+  const colorClassName = isFinal(status)
+    ? 'bg-gray-200 text-gray-800'
+    : isOvertime(status)
+      ? 'bg-amber-500 text-white'
+      : 'bg-red-600 text-white'
+  const sizeClassName = size === 'lg' ? 'px-4 py-2 text-lg' : 'px-1.5 py-0.5 text-xs'
+
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full font-bold ${colorClassName} ${sizeClassName}`}>
+      {isInProgress(status) && <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" />}
+      <span>{formatLiveStatus(status)}</span>
+      <span className="font-mono">{formatScore(status)}</span>
+    </span>
+  )
+}
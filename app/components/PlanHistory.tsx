@@ -0,0 +1,175 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { PlanVersion, PlanVersionSummary } from '@/lib/domain'
+import { PlanChange, diffPlans } from '@/lib/plan-history'
+import { formatTime } from '@/lib/timezone'
+
+interface PlanHistoryProps {
+  venueId: string
+  // From getPlanWeekKey
+  weekKey: string
+  // The version on screen; the list is refetched when it changes
+  currentVersion: number | null
+  timeZone: string
+  onLoad: (version: PlanVersion) => void
+}
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500'
+
+function describeProducer({ producer }: PlanVersionSummary) {
+  const assignments = producer.assignments === 'manual' ? 'Edited by hand' : 'TV solver'
+  return producer.narrative === 'automatic' ? assignments : `${assignments} + ${producer.narrative}`
+}
+
+function formatDay(iso: string, timeZone: string) {
+  return new Date(iso).toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+function formatTvs(tvs: number[], getTvName: (tvNumber: number) => string) {
+  return tvs.length ? tvs.map(getTvName).join(', ') : 'off the plan'
+}
+
+async function fetchVersion(venueId: string, weekKey: string, version: number): Promise<PlanVersion> {
+  const response = await fetch(`/api/plans?venue=${venueId}&week=${weekKey}&version=${version}`)
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || `Failed to load version ${version}`)
+  }
+  return result
+}
+
+export default function PlanHistory({ venueId, weekKey, currentVersion, timeZone, onLoad }: PlanHistoryProps) {
+  const [versions, setVersions] = useState<PlanVersionSummary[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [compareFrom, setCompareFrom] = useState<number | null>(null)
+  const [compareTo, setCompareTo] = useState<number | null>(null)
+  const [comparison, setComparison] = useState<{ changes: PlanChange[]; to: PlanVersion } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(`/api/plans?venue=${venueId}&week=${weekKey}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load plan history')
+        }
+        if (cancelled) return
+        setVersions(result.versions)
+        setError(null)
+        setComparison(null)
+        // Default to what changed in the newest version
+        setCompareTo(result.versions[0]?.version ?? null)
+        setCompareFrom(result.versions[0]?.basedOn ?? result.versions[1]?.version ?? null)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load plan history')
+      }
+    }
+
+    loadVersions()
+    return () => {
+      cancelled = true
+    }
+  }, [venueId, weekKey, currentVersion])
+
+  const load = async (version: number) => {
+    try {
+      onLoad(await fetchVersion(venueId, weekKey, version))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load version')
+    }
+  }
+
+  const compare = async () => {
+    if (compareFrom === null || compareTo === null) return
+    try {
+      const [from, to] = await Promise.all([fetchVersion(venueId, weekKey, compareFrom), fetchVersion(venueId, weekKey, compareTo)])
+      setComparison({ changes: diffPlans(from.plan, to.plan), to })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions')
+    }
+  }
+
+  if (versions.length === 0 && !error) return null
+
+  const getTvName = (tvNumber: number) => {
+    return comparison?.to.plan.tvs?.find(tv => tv.tvNumber === tvNumber)?.name ?? `TV ${tvNumber}`
+  }
+
+  return (
+    <div className="mt-8 bg-gray-50 rounded-lg p-6">
+      <h4 className="text-lg font-bold text-gray-900 mb-4">Version History</h4>
+
+      {error && <div className="mb-3 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">{error}</div>}
+
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {versions.map(version => (
+          <div key={version.version} className="flex items-center justify-between px-4 py-2 text-sm">
+            <div>
+              <span className="font-medium text-gray-900">v{version.version}</span>
+              <span className="text-gray-600"> · {formatDay(version.createdAt, timeZone)} {formatTime(version.createdAt, timeZone)} · {version.generatedBy}</span>
+              <div className="text-xs text-gray-500">
+                {describeProducer(version)}{version.basedOn !== undefined && ` from v${version.basedOn}`}
+              </div>
+            </div>
+            {version.version === currentVersion ? (
+              <span className="text-xs font-medium text-purple-700">Showing</span>
+            ) : (
+              <button onClick={() => load(version.version)} className="text-xs font-medium text-purple-600 hover:text-purple-800">
+                Load
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="mt-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>Compare</span>
+            <select className={selectClassName} value={compareFrom ?? ''} onChange={(e) => setCompareFrom(parseInt(e.target.value))}>
+              {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+            </select>
+            <span>with</span>
+            <select className={selectClassName} value={compareTo ?? ''} onChange={(e) => setCompareTo(parseInt(e.target.value))}>
+              {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+            </select>
+            <button
+              onClick={compare}
+              disabled={compareFrom === null || compareTo === null || compareFrom === compareTo}
+              className="px-3 py-1 rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:bg-gray-100 disabled:text-gray-400"
+            >
+              Show changes
+            </button>
+          </div>
+
+          {comparison && (
+            comparison.changes.length === 0 ? (
+              <p className="mt-3 text-sm text-gray-500">No games changed TVs.</p>
+            ) : (
+              <ul className="mt-3 space-y-1 text-sm">
+                {comparison.changes.map(change => (
+                  <li key={change.gameId} className="flex justify-between gap-4">
+                    <span className="text-gray-900">
+                      {change.matchup} <span className="text-gray-500">{formatDay(change.gameDateTimeUTC, timeZone)}</span>
+                    </span>
+                    <span className={change.kind === 'added' ? 'text-green-700' : change.kind === 'removed' ? 'text-red-700' : 'text-gray-700'}>
+                      {change.kind === 'moved'
+                        ? `${formatTvs(change.fromTvs, getTvName)} → ${formatTvs(change.toTvs, getTvName)}`
+                        : change.kind === 'added'
+                          ? `Added on ${formatTvs(change.toTvs, getTvName)}`
+                          : `Removed from ${formatTvs(change.fromTvs, getTvName)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useState } from 'react'
+import type { PriorityRule, PriorityRuleType } from '@/lib/domain'
+import { NBA_TEAMS } from '@/lib/leagues/nba-teams'
+import { DEFAULT_PRIORITY_RULES, PRIORITY_BASE, PRIORITY_RULE_LABELS, createPriorityRule } from '@/lib/priority-rules'
+
+interface PriorityRulesEditorProps {
+  rules: PriorityRule[]
+  onChange: (rules: PriorityRule[]) => void
+}
+
+const inputClassName = 'px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+
+function TeamSelect({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClassName}>
+      {NBA_TEAMS.map(team => (
+        <option key={team.value} value={team.value}>{team.label}</option>
+      ))}
+    </select>
+  )
+}
+
+// Fields specific to a rule type, shown next to its weight
+function RuleOptions({ rule, onChange }: { rule: PriorityRule; onChange: (rule: PriorityRule) => void }) {
+  switch (rule.type) {
+    case 'teamQuality':
+      return (
+        <span className="flex items-center gap-2 text-sm text-gray-600">
+          above
+          <input
+            type="number" min="0" max="1" step="0.05" value={rule.above}
+            onChange={(e) => onChange({ ...rule, above: parseFloat(e.target.value) || 0 })}
+            className={`${inputClassName} w-20`}
+          />
+          below
+          <input
+            type="number" min="0" max="1" step="0.05" value={rule.below}
+            onChange={(e) => onChange({ ...rule, below: parseFloat(e.target.value) || 0 })}
+            className={`${inputClassName} w-20`}
+          />
+          win %
+        </span>
+      )
+    case 'rivalry':
+      return (
+        <span className="flex items-center gap-2 text-sm text-gray-600">
+          <TeamSelect value={rule.teams[0]} onChange={(team) => onChange({ ...rule, teams: [team, rule.teams[1]] })} />
+          vs
+          <TeamSelect value={rule.teams[1]} onChange={(team) => onChange({ ...rule, teams: [rule.teams[0], team] })} />
+        </span>
+      )
+    case 'standingsProximity':
+      return (
+        <span className="flex items-center gap-2 text-sm text-gray-600">
+          within
+          <input
+            type="number" min="0" step="0.5" value={rule.maxGamesApart}
+            onChange={(e) => onChange({ ...rule, maxGamesApart: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={`${inputClassName} w-20`}
+          />
+          games
+        </span>
+      )
+    case 'starPlayer':
+      return (
+        <span className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="text" placeholder="Player name" value={rule.player}
+            onChange={(e) => onChange({ ...rule, player: e.target.value })}
+            className={`${inputClassName} w-36`}
+          />
+          plays for
+          <TeamSelect value={rule.teamTricode} onChange={(team) => onChange({ ...rule, teamTricode: team })} />
+        </span>
+      )
+    case 'opponent':
+      return <TeamSelect value={rule.teamTricode} onChange={(team) => onChange({ ...rule, teamTricode: team })} />
+    default:
+      return null
+  }
+}
+
+export default function PriorityRulesEditor({ rules, onChange }: PriorityRulesEditorProps) {
+  const [newRuleType, setNewRuleType] = useState<PriorityRuleType>('rivalry')
+
+  const updateRule = (index: number, rule: PriorityRule) => {
+    onChange(rules.map((existing, i) => i === index ? rule : existing))
+  }
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-3 p-2 border border-gray-200 rounded-lg bg-gray-50">
+            <label className="flex items-center w-48">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={rule.enabled}
+                onChange={() => updateRule(index, { ...rule, enabled: !rule.enabled })}
+              />
+              <span className="ml-2 text-sm text-gray-700">{PRIORITY_RULE_LABELS[rule.type]}</span>
+            </label>
+            <span className="flex items-center gap-1 text-sm text-gray-600">
+              +
+              <input
+                type="number" min="-5" max="5" step="0.5" value={rule.weight}
+                onChange={(e) => updateRule(index, { ...rule, weight: Math.max(-5, Math.min(5, parseFloat(e.target.value) || 0)) })}
+                className={`${inputClassName} w-20`}
+                aria-label={`${PRIORITY_RULE_LABELS[rule.type]} weight`}
+              />
+            </span>
+            <RuleOptions rule={rule} onChange={(updated) => updateRule(index, updated)} />
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="ml-auto text-sm text-gray-400 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No rules - every game gets priority {PRIORITY_BASE}.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <select
+          value={newRuleType}
+          onChange={(e) => setNewRuleType(e.target.value as PriorityRuleType)}
+          className={inputClassName}
+        >
+          {(Object.keys(PRIORITY_RULE_LABELS) as PriorityRuleType[]).map(type => (
+            <option key={type} value={type}>{PRIORITY_RULE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange([...rules, createPriorityRule(newRuleType)])}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors"
+        >
+          Add rule
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_PRIORITY_RULES)}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          Restore default rules
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,106 +2,38 @@
 
 import { useEffect, useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
+import AICalendar from './AICalendar'
 import { GameCalendarCard } from './GameCalendarCard'
+import { LiveStatusBadge } from './LiveStatusBadge'
+import PlanHistory from './PlanHistory'
 import JSConfetti from 'js-confetti'
-
-interface Team {
-  teamId: number
-  teamName: string
-  teamCity: string
-  teamTricode: string
-  teamSlug: string
-  wins: number
-  losses: number
-  score: number
-  seed: number
-}
-
-interface Broadcaster {
-  broadcasterScope: string
-  broadcasterMedia: string
-  broadcasterId: number
-  broadcasterDisplay: string
-  broadcasterAbbreviation: string
-  broadcasterDescription: string
-  tapeDelayComments: string
-  broadcasterVideoLink: string
-  broadcasterTeamId: number
-  broadcasterRanking: number | null
-  localizationRegion: string
-}
-
-interface Broadcasters {
-  nationalBroadcasters: Broadcaster[]
-  nationalRadioBroadcasters: Broadcaster[]
-  nationalOttBroadcasters: Broadcaster[]
-  homeTvBroadcasters: Broadcaster[]
-  homeRadioBroadcasters: Broadcaster[]
-  homeOttBroadcasters: Broadcaster[]
-  awayTvBroadcasters: Broadcaster[]
-  awayRadioBroadcasters: Broadcaster[]
-  awayOttBroadcasters: Broadcaster[]
-}
-
-interface Game {
-  gameId: string
-  gameCode: string
-  gameStatus: number
-  gameStatusText: string
-  gameSequence: number
-  gameDateEst: string
-  gameTimeEst: string
-  gameDateTimeEst: string
-  gameDateUTC: string
-  gameTimeUTC: string
-  gameDateTimeUTC: string
-  awayTeamTime: string
-  homeTeamTime: string
-  day: string
-  monthNum: number
-  weekNumber: number
-  weekName: string
-  ifNecessary: string
-  seriesGameNumber: string
-  gameLabel: string
-  gameSubLabel: string
-  seriesText: string
-  arenaName: string
-  arenaState: string
-  arenaCity: string
-  postponedStatus: string
-  branchLink: string
-  gameSubtype: string
-  isNeutral: boolean
-  broadcasters: Broadcasters
-  homeTeam: Team
-  awayTeam: Team
-  pointsLeaders: unknown[]
-}
-
-interface GameDate {
-  gameDate: string
-  games: Game[]
-}
-
-interface LeagueSchedule {
-  seasonYear: string
-  leagueId: string
-  gameDates: GameDate[]
-}
-
-interface ScheduleData {
-  meta: {
-    version: number
-    request: string
-    time: string
+import { Broadcaster, Game, GameDate, LiveGameStatus, PinnedAssignment, ScheduleData, UserPreferences, ViewingPlan, DEFAULT_VENUE_ID, getBroadcasterNames } from '@/lib/domain'
+import { formatTunedBroadcaster, getChannelLineup, getProviderName, getTunedBroadcasters, tuneBroadcaster } from '@/lib/channel-lineup'
+import { estimateGameDurationMinutes, formatDuration, getGameEndTime } from '@/lib/game-duration'
+import type { DurationStat } from '@/lib/game-duration'
+import { isFinal, isOvertime } from '@/lib/live-status'
+import { getPlanWeekKey } from '@/lib/plan-history'
+import { PREFERENCES_UPDATED_EVENT, SELECTED_VENUE_KEY, getSelectedVenueId, loadPreferences } from '@/lib/preferences-client'
+import { formatPriorityBreakdown, formatPriorityTitle } from '@/lib/priority-rules'
+import { formatGameStartTime, formatTime, getMinutesIntoDay, getTimeZoneAbbreviation, resolveTimeZone } from '@/lib/timezone'
+import type { ScheduleWarnings } from '@/lib/schedule-schema'
+import { getWatchability } from '@/lib/watchability'
+
+interface ScheduleResponse extends ScheduleData {
+  source?: 'live' | 'fixture' | 'snapshots'
+  cache?: {
+    status: 'hit' | 'miss' | 'stale' | 'error'
+    fetchedAt: string
+    ageSeconds: number
+    error?: string
   }
-  leagueSchedule: LeagueSchedule
+  warnings?: ScheduleWarnings
+  durationStats?: DurationStat[]
 }
 
 export default function Schedule() {
   const router = useRouter()
-  const [scheduleData, setScheduleData] = useState<ScheduleData | null>(null)
+  const [scheduleData, setScheduleData] = useState<ScheduleResponse | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<'list' | 'calendar' | 'tv-day'>('calendar')
@@ -119,29 +51,40 @@ export default function Schedule() {
   const [isGenerateModalOpen, setIsGenerateModalOpen] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
   const [generateStatus, setGenerateStatus] = useState<{ type: 'success' | 'error', message: string } | null>(null)
-  const [generatedCalendar, setGeneratedCalendar] = useState<{
-    optimizedGames: Array<Game & { priority: number; tvAssignment: number; color: string; reasoning: string }>
-    tvSchedule: Record<number, Array<Game & { priority: number; tvAssignment: number; color: string; reasoning: string }>>
-    recommendations: string[]
-    weekSummary: string
-  } | null>(null)
+  const [generatedCalendar, setGeneratedCalendar] = useState<ViewingPlan | null>(null)
+  // The saved version on screen; see /api/plans
+  const [planVersion, setPlanVersion] = useState<number | null>(null)
+  const [planSaveError, setPlanSaveError] = useState<string | null>(null)
+  // Recorded with each plan version
+  const [managerName, setManagerName] = useState('')
   const [selectedTvTab, setSelectedTvTab] = useState(1)
-  const [userPreferences, setUserPreferences] = useState<{
-    sportsInterests: string[]
-    numberOfTvs: number
-    tvSetupDescription: string
-    favoriteNbaTeams: string[]
-    zipCode: string
-  } | null>(null)
+  // The plan by TV, or day by day with drag-and-drop editing
+  const [planView, setPlanView] = useState<'tv' | 'day'>('tv')
+  const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null)
+  // Which venue this device plans for; see lib/preferences-client.ts
+  const [venueId, setVenueId] = useState(DEFAULT_VENUE_ID)
+  const [liveStatuses, setLiveStatuses] = useState<Record<string, LiveGameStatus>>({})
+  // Weeks before today are fetched on demand; false once there's nothing earlier in the season
+  const [hasEarlierWeeks, setHasEarlierWeeks] = useState(true)
+  const [isLoadingEarlierWeeks, setIsLoadingEarlierWeeks] = useState(false)
 
   useEffect(() => {
     const fetchSchedule = async () => {
       try {
-        const response = await fetch('/api/schedule')
+        // Only request games from today onward - the full season payload is several MB.
+        // "today" is resolved by the server, in the venue's zone, so a frozen fixture clock opens on
+        // its slate of games.
+        const response = await fetch(`/api/schedule?from=today&venue=${encodeURIComponent(getSelectedVenueId())}`)
         if (!response.ok) {
           throw new Error('Failed to fetch schedule')
         }
         const data = await response.json()
+        if (!Array.isArray(data?.leagueSchedule?.gameDates)) {
+          throw new Error('Schedule data is in an unexpected format')
+        }
+        if (data.warnings?.droppedGames?.length) {
+          console.warn(`${data.warnings.droppedGames.length} games were dropped by schedule validation:`, data.warnings)
+        }
         setScheduleData(data)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred')
@@ -153,68 +96,133 @@ export default function Schedule() {
     fetchSchedule()
   }, [])
 
-  // Load user preferences from localStorage on component mount
+  // Poll live scores for today's games - the server says how soon to ask again, or null once they're all
+  // over, in which case check back slowly so a page left open picks up the next day's games
   useEffect(() => {
-    const loadPreferences = () => {
-      if (typeof window === 'undefined') return
-      
-      try {
-        const stored = localStorage.getItem('sports-scheduler-user-preferences')
-        if (stored) {
-          const preferences = JSON.parse(stored)
-          setUserPreferences(preferences)
+    const idlePollSeconds = 15 * 60
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let cancelled = false
+
+    const pollLiveScores = async () => {
+      let delaySeconds = 60
+      if (!document.hidden) {
+        try {
+          const response = await fetch('/api/live')
+          if (!response.ok) {
+            throw new Error('Failed to fetch live scores')
+          }
+          const data = await response.json()
+          if (Array.isArray(data?.games)) {
+            setLiveStatuses(prev => {
+              const next = { ...prev }
+              data.games.forEach((status: LiveGameStatus) => {
+                next[status.gameId] = status
+              })
+              return next
+            })
+          }
+          delaySeconds = typeof data?.pollAfterSeconds === 'number' ? data.pollAfterSeconds : idlePollSeconds
+        } catch (error) {
+          console.error('Failed to refresh live scores:', error)
         }
+      }
+      if (!cancelled) {
+        timer = setTimeout(pollLiveScores, delaySeconds * 1000)
+      }
+    }
+
+    pollLiveScores()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [])
+
+  // Load the venue's preferences from the server on mount, and again whenever they may have changed
+  useEffect(() => {
+    const refreshPreferences = async () => {
+      const selectedVenueId = getSelectedVenueId()
+      try {
+        const preferences = await loadPreferences(selectedVenueId)
+        setVenueId(selectedVenueId)
+        setUserPreferences(preferences)
       } catch (error) {
-        console.error('Failed to load preferences from localStorage:', error)
+        console.error('Failed to load preferences:', error)
       }
     }
 
-    loadPreferences()
+    refreshPreferences()
 
-    // Listen for storage changes (when preferences are updated in settings page)
+    // Another tab switched venue
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'sports-scheduler-user-preferences' && e.newValue) {
-        try {
-          const preferences = JSON.parse(e.newValue)
-          setUserPreferences(preferences)
-        } catch (error) {
-          console.error('Failed to parse preferences from storage event:', error)
-        }
+      if (e.key === SELECTED_VENUE_KEY) {
+        refreshPreferences()
       }
     }
 
-    // Listen for window focus to reload preferences when returning from settings
+    // Listen for window focus to reload preferences when returning from settings or another device
     const handleWindowFocus = () => {
-      loadPreferences()
+      refreshPreferences()
     }
 
     // Listen for visibility change (when user returns to this tab)
     const handleVisibilityChange = () => {
       if (!document.hidden) {
-        loadPreferences()
+        refreshPreferences()
       }
     }
 
     // Listen for custom preference update events
     const handlePreferenceUpdate = () => {
-      loadPreferences()
+      refreshPreferences()
     }
 
     window.addEventListener('storage', handleStorageChange)
     window.addEventListener('focus', handleWindowFocus)
     document.addEventListener('visibilitychange', handleVisibilityChange)
-    window.addEventListener('preferencesUpdated', handlePreferenceUpdate)
+    window.addEventListener(PREFERENCES_UPDATED_EVENT, handlePreferenceUpdate)
     
     return () => {
       window.removeEventListener('storage', handleStorageChange)
       window.removeEventListener('focus', handleWindowFocus)
       document.removeEventListener('visibilitychange', handleVisibilityChange)
-      window.removeEventListener('preferencesUpdated', handlePreferenceUpdate)
+      window.removeEventListener(PREFERENCES_UPDATED_EVENT, handlePreferenceUpdate)
     }
   }, [])
 
-  const formatGameTime = (gameStatusText: string) => {
-    return gameStatusText
+  // Every time on screen is in the venue's zone
+  const venueTimeZone = resolveTimeZone(userPreferences)
+  const channelLineup = getChannelLineup(userPreferences)
+  const providerName = getProviderName(channelLineup)
+
+  const formatTvBroadcaster = (broadcaster: Broadcaster) => {
+    return formatTunedBroadcaster(tuneBroadcaster(broadcaster, channelLineup))
+  }
+
+  // Null until preferences load; accounts for blackouts in the venue's market and its subscriptions
+  const selectedWatchability = selectedGame && userPreferences ? getWatchability(selectedGame, userPreferences) : null
+
+  // Pins are saved with the week's plan. Plans saved before that only mark their pinned games.
+  const pinnedAssignments: PinnedAssignment[] = generatedCalendar?.pinnedAssignments
+    ?? (generatedCalendar?.optimizedGames ?? [])
+      .filter(game => game.pinned)
+      .map(game => ({ gameId: game.gameId, tvNumber: game.tvAssignment }))
+
+  const isPinned = (gameId: string, tvNumber: number) => {
+    return pinnedAssignments.some(pin => pin.gameId === gameId && pin.tvNumber === tvNumber)
+  }
+
+  // A game is pinned to one TV at most; pinning it elsewhere moves the pin
+  const togglePin = (gameId: string, tvNumber: number) => {
+    saveEditedPlan({
+      pinnedAssignments: isPinned(gameId, tvNumber)
+        ? pinnedAssignments.filter(pin => pin.gameId !== gameId)
+        : [...pinnedAssignments.filter(pin => pin.gameId !== gameId), { gameId, tvNumber }]
+    })
+  }
+
+  const formatGameTime = (game: Game) => {
+    return formatGameStartTime(game, venueTimeZone)
   }
 
   const formatDate = (dateString: string) => {
@@ -227,20 +235,6 @@ export default function Schedule() {
     })
   }
 
-  const getAllBroadcasters = (broadcasters: Broadcasters) => {
-    const allBroadcasters = [
-      ...broadcasters.nationalBroadcasters,
-      ...broadcasters.homeTvBroadcasters,
-      ...broadcasters.homeRadioBroadcasters,
-      ...broadcasters.awayTvBroadcasters,
-      ...broadcasters.awayRadioBroadcasters
-    ]
-    
-    return allBroadcasters
-      .filter(broadcaster => broadcaster.broadcasterDisplay !== 'TBD' && broadcaster.broadcasterDisplay)
-      .map(broadcaster => broadcaster.broadcasterDisplay)
-  }
-
   // Calendar view helper functions
   const getWeeksFromSchedule = () => {
     if (!scheduleData) return []
@@ -264,8 +258,8 @@ export default function Schedule() {
       gamesByDate.set(dateKey, gameDate.games)
     })
     
-    // Find the date range
-    const allDates = Array.from(gamesByDate.keys()).map(dateStr => new Date(dateStr)).sort((a, b) => a.getTime() - b.getTime())
+    // Find the date range, as local midnights so the day arithmetic below stays on calendar dates
+    const allDates = Array.from(gamesByDate.keys()).map(dateStr => new Date(`${dateStr}T00:00:00`)).sort((a, b) => a.getTime() - b.getTime())
     if (allDates.length === 0) return []
     
     // Start from the first Sunday before or on the first game date
@@ -308,6 +302,100 @@ export default function Schedule() {
 
   const weeks = getWeeksFromSchedule()
   const totalWeeks = weeks.length
+  const currentWeekKey = weeks[currentWeek] ? getPlanWeekKey(weeks[currentWeek].weekStart.toLocaleDateString('en-CA')) : null
+
+  // Week bounds for the API as the calendar date at noon, which reads as the same day in any zone
+  const toWeekBoundary = (date: Date) => `${date.toLocaleDateString('en-CA')}T12:00:00`
+
+  useEffect(() => {
+    setManagerName(localStorage.getItem('sports-scheduler-manager-name') ?? '')
+  }, [])
+
+  const updateManagerName = (name: string) => {
+    setManagerName(name)
+    localStorage.setItem('sports-scheduler-manager-name', name)
+  }
+
+  // Show the week's latest saved plan, if it has one
+  useEffect(() => {
+    if (!currentWeekKey) return
+    let cancelled = false
+
+    const loadSavedPlan = async () => {
+      try {
+        const response = await fetch(`/api/plans?venue=${venueId}&week=${currentWeekKey}&version=latest`)
+        if (response.status === 404) {
+          if (!cancelled) {
+            setGeneratedCalendar(null)
+            setPlanVersion(null)
+          }
+          return
+        }
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load saved plan')
+        }
+        if (!cancelled) {
+          setGeneratedCalendar(result.plan)
+          setPlanVersion(result.version)
+          setPlanSaveError(null)
+        }
+      } catch (error) {
+        console.error('Failed to load saved plan:', error)
+      }
+    }
+
+    loadSavedPlan()
+    return () => {
+      cancelled = true
+    }
+  }, [venueId, currentWeekKey])
+
+  // Hand edits from the day view and pin changes are saved as a new version on top of the one on screen
+  const saveEditedPlan = async (edits: Partial<Pick<ViewingPlan, 'optimizedGames' | 'tvSchedule' | 'pinnedAssignments'>>) => {
+    if (!generatedCalendar || !userPreferences || !weeks[currentWeek]) return
+
+    const { recommendations, weekSummary, tvs } = generatedCalendar
+    const optimizedGames = edits.optimizedGames ?? generatedCalendar.optimizedGames
+    // A game moved by hand is no longer pinned where it was
+    const pins = (edits.pinnedAssignments ?? pinnedAssignments).filter(pin =>
+      optimizedGames.some(game => game.gameId === pin.gameId && game.tvAssignment === pin.tvNumber)
+    )
+    const plan: ViewingPlan = {
+      optimizedGames,
+      tvSchedule: edits.tvSchedule ?? generatedCalendar.tvSchedule,
+      recommendations,
+      weekSummary,
+      tvs,
+      pinnedAssignments: pins
+    }
+    setGeneratedCalendar(plan)
+    setPlanSaveError(null)
+
+    try {
+      const response = await fetch('/api/plans', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          venueId,
+          weekStart: toWeekBoundary(weeks[currentWeek].weekStart),
+          generatedBy: managerName,
+          basedOn: planVersion,
+          preferences: { ...userPreferences, timezone: venueTimeZone },
+          plan
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save plan')
+      }
+      setPlanVersion(result.version)
+    } catch (error) {
+      setPlanSaveError(error instanceof Error ? error.message : 'Failed to save plan')
+    }
+  }
 
   // Get all game dates for TV day view
   const getAllGameDates = () => {
@@ -345,9 +433,60 @@ export default function Schedule() {
   const allGameDates = getAllGameDates()
   const totalDays = allGameDates.length
 
+  // Fetches the weeks before the first one loaded and moves to the one just before it
+  const loadEarlierWeeks = async () => {
+    if (weeks.length === 0) return
+    const firstWeekKey = weeks[0].weekStart.toLocaleDateString('en-CA')
+    const shiftDateKey = (dateKey: string, days: number) => {
+      const date = new Date(`${dateKey}T12:00:00Z`)
+      date.setUTCDate(date.getUTCDate() + days)
+      return date.toISOString().slice(0, 10)
+    }
+
+    setIsLoadingEarlierWeeks(true)
+    try {
+      const response = await fetch(`/api/schedule?from=${shiftDateKey(firstWeekKey, -28)}&to=${shiftDateKey(firstWeekKey, -1)}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch earlier weeks')
+      }
+      const data = await response.json()
+      if (!Array.isArray(data?.leagueSchedule?.gameDates)) {
+        throw new Error('Schedule data is in an unexpected format')
+      }
+      const earlierGameDates: GameDate[] = data.leagueSchedule.gameDates.filter((gameDate: GameDate) => gameDate.games.length > 0)
+      if (earlierGameDates.length === 0) {
+        setHasEarlierWeeks(false)
+        return
+      }
+
+      // Weeks start on the Sunday before the earliest game, so count how many were added
+      const earliestWeekKey = getPlanWeekKey(earlierGameDates
+        .map(gameDate => {
+          const [month, day, year] = gameDate.gameDate.split(' ')[0].split('/')
+          return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+        })
+        .sort()[0])
+      const addedWeeks = Math.round((Date.parse(firstWeekKey) - Date.parse(earliestWeekKey)) / (7 * 24 * 60 * 60 * 1000))
+
+      setScheduleData(prev => prev && {
+        ...prev,
+        leagueSchedule: { ...prev.leagueSchedule, gameDates: [...earlierGameDates, ...prev.leagueSchedule.gameDates] }
+      })
+      setCurrentWeek(addedWeeks - 1)
+      // The TV day view counts game dates from the first one loaded; keep it on the same day
+      setCurrentDay(day => day + earlierGameDates.length)
+    } catch (error) {
+      console.error('Failed to load earlier weeks:', error)
+    } finally {
+      setIsLoadingEarlierWeeks(false)
+    }
+  }
+
   const goToPrevWeek = () => {
     if (currentWeek > 0) {
       setCurrentWeek(currentWeek - 1)
+    } else if (hasEarlierWeeks && !isLoadingEarlierWeeks) {
+      loadEarlierWeeks()
     }
   }
 
@@ -370,6 +509,11 @@ export default function Schedule() {
     }
   }
 
+  // Plans generated before TVs had names fall back to the number
+  const getTvName = (tvNumber: number) => {
+    return generatedCalendar?.tvs?.find(tv => tv.tvNumber === tvNumber)?.name ?? `TV ${tvNumber}`
+  }
+
   // Convert priority (1-10) to star rating (1-5)
   const getStarRating = (priority: number) => {
     // Convert 1-10 scale to 1-5 stars
@@ -408,52 +552,22 @@ export default function Schedule() {
     }
   }
 
-  // Helper function to calculate game end time (3.5 hours after start)
-  const getEndTime = (startTime: string) => {
-    try {
-      // Parse time like "7:00 pm ET"
-      const timeMatch = startTime.match(/(\d{1,2}):(\d{2})\s*(am|pm)/i)
-      if (!timeMatch) return 'End Time TBD'
-      
-      let hours = parseInt(timeMatch[1])
-      const minutes = parseInt(timeMatch[2])
-      const period = timeMatch[3].toLowerCase()
-      
-      if (period === 'pm' && hours !== 12) hours += 12
-      if (period === 'am' && hours === 12) hours = 0
-      
-      // Add 3.5 hours
-      const totalMinutes = hours * 60 + minutes + (3.5 * 60)
-      const endHours = Math.floor(totalMinutes / 60) % 24
-      const endMins = Math.floor(totalMinutes % 60)
-      
-      const endPeriod = endHours >= 12 ? 'pm' : 'am'
-      const displayHours = endHours === 0 ? 12 : endHours > 12 ? endHours - 12 : endHours
-      
-      return `${displayHours}:${endMins.toString().padStart(2, '0')} ${endPeriod} ET`
-    } catch {
-      return 'End Time TBD'
-    }
+  // Estimated end from duration history, or from the live score once the game has tipped off
+  const getEndTime = (game: Game) => {
+    return formatTime(getGameEndTime(game, scheduleData?.durationStats, liveStatuses[game.gameId]), venueTimeZone)
   }
 
   // Time-based positioning helpers
-  const parseGameTime = (gameStatusText: string) => {
-    // Parse time from formats like "12:00 pm ET", "10:30 pm ET", etc.
-    const timeMatch = gameStatusText.match(/(\d{1,2}):(\d{2})\s*(am|pm)/i)
-    if (!timeMatch) return null
-    
-    let hours = parseInt(timeMatch[1])
-    const minutes = parseInt(timeMatch[2])
-    const period = timeMatch[3].toLowerCase()
-    
-    if (period === 'pm' && hours !== 12) hours += 12
-    if (period === 'am' && hours === 12) hours = 0
-    
-    return hours * 60 + minutes // Return minutes from midnight
+  const parseGameTime = (game: Game) => {
+    // Tip-off as minutes from midnight in the venue's zone; null until the league sets a time
+    if (formatGameTime(game) === 'TBD') return null
+    const start = new Date(game.gameDateTimeUTC)
+    if (isNaN(start.getTime())) return null
+    return getMinutesIntoDay(start, venueTimeZone)
   }
 
   const getGamePosition = (game: Game, dayGames: Game[]) => {
-    const gameTime = parseGameTime(game.gameStatusText)
+    const gameTime = parseGameTime(game)
     if (gameTime === null) return { top: 0, left: 0, width: 100 }
     
     // Define time range (6 AM to 2 AM next day = 20 hours)
@@ -468,45 +582,31 @@ export default function Schedule() {
     const topPercent = Math.max(0, Math.min(95, ((adjustedTime - startTime) / totalRange) * 95))
     
     // Find all games with valid times for this day
-    const validGames = dayGames.filter(g => parseGameTime(g.gameStatusText) !== null)
+    const validGames = dayGames.filter(g => parseGameTime(g) !== null)
     
-    // Group games by time slots (within 2 hours of each other)
+    // Group games whose estimated windows overlap - a game starting after another ends can follow it on the same TV
+    const gameWindow = (g: Game) => ({
+      start: new Date(g.gameDateTimeUTC).getTime(),
+      end: getGameEndTime(g, scheduleData?.durationStats, liveStatuses[g.gameId]).getTime()
+    })
+    const gamesByStart = [...validGames].sort((a, b) => gameWindow(a).start - gameWindow(b).start)
     const timeSlots: Game[][] = []
-    validGames.forEach(g => {
-      const gTime = parseGameTime(g.gameStatusText)!
-      const adjustedGTime = gTime < startTime ? gTime + 24 * 60 : gTime
-      
-      let addedToSlot = false
-      for (const slot of timeSlots) {
-        const slotTime = parseGameTime(slot[0].gameStatusText)!
-        const adjustedSlotTime = slotTime < startTime ? slotTime + 24 * 60 : slotTime
-        
-        // If within 2 hours, add to this slot
-        if (Math.abs(adjustedGTime - adjustedSlotTime) <= 120) {
-          slot.push(g)
-          addedToSlot = true
-          break
-        }
-      }
-      
-      if (!addedToSlot) {
+    let slotEnd = -Infinity
+    gamesByStart.forEach(g => {
+      const { start, end } = gameWindow(g)
+      if (timeSlots.length > 0 && start < slotEnd) {
+        timeSlots[timeSlots.length - 1].push(g)
+        slotEnd = Math.max(slotEnd, end)
+      } else {
         timeSlots.push([g])
+        slotEnd = end
       }
     })
     
-    // Find which slot this game belongs to
+    // Find which slot this game belongs to (slots are already in start order)
     const currentSlot = timeSlots.find(slot => slot.some(g => g.gameId === game.gameId))
     if (!currentSlot) return { top: topPercent, left: 0, width: 100 }
     
-    // Sort games in slot by time
-    currentSlot.sort((a, b) => {
-      const timeA = parseGameTime(a.gameStatusText)!
-      const timeB = parseGameTime(b.gameStatusText)!
-      const adjA = timeA < startTime ? timeA + 24 * 60 : timeA
-      const adjB = timeB < startTime ? timeB + 24 * 60 : timeB
-      return adjA - adjB
-    })
-    
     // Calculate position within the slot
     const slotSize = currentSlot.length
     const gameIndexInSlot = currentSlot.findIndex(g => g.gameId === game.gameId)
@@ -593,8 +693,8 @@ export default function Schedule() {
       })
 
       const weekData = {
-        weekStart: weeks[currentWeek].weekStart.toISOString(),
-        weekEnd: weeks[currentWeek].weekEnd.toISOString(),
+        weekStart: toWeekBoundary(weeks[currentWeek].weekStart),
+        weekEnd: toWeekBoundary(weeks[currentWeek].weekEnd),
         games: weekGames
       }
 
@@ -605,7 +705,9 @@ export default function Schedule() {
         },
         body: JSON.stringify({
           weekData,
-          recipientEmail: emailAddress
+          recipientEmail: emailAddress,
+          timeZone: venueTimeZone,
+          channelLineup
         })
       })
 
@@ -636,13 +738,7 @@ export default function Schedule() {
   }
 
   // Handle user preferences changes
-  const handlePreferencesChange = useCallback((preferences: {
-    sportsInterests: string[]
-    numberOfTvs: number
-    tvSetupDescription: string
-    favoriteNbaTeams: string[]
-    zipCode: string
-  }) => {
+  const handlePreferencesChange = useCallback((preferences: UserPreferences) => {
     setUserPreferences(preferences)
   }, [])
 
@@ -668,12 +764,13 @@ export default function Schedule() {
 
     try {
       const weekData = {
-        weekStart: weeks[currentWeek].weekStart.toISOString(),
-        weekEnd: weeks[currentWeek].weekEnd.toISOString(),
+        weekStart: toWeekBoundary(weeks[currentWeek].weekStart),
+        weekEnd: toWeekBoundary(weeks[currentWeek].weekEnd),
         games: generatedCalendar.optimizedGames,
         tvSchedule: generatedCalendar.tvSchedule,
         recommendations: generatedCalendar.recommendations,
         weekSummary: generatedCalendar.weekSummary,
+        tvs: generatedCalendar.tvs,
         isOptimized: true
       }
 
@@ -685,7 +782,10 @@ export default function Schedule() {
         body: JSON.stringify({
           weekData,
           recipientEmail: emailAddress,
-          isOptimizedCalendar: true
+          isOptimizedCalendar: true,
+          timeZone: venueTimeZone,
+          channelLineup,
+          venueId
         })
       })
 
@@ -716,58 +816,46 @@ export default function Schedule() {
     }
   }
 
-  // Send subscription email for optimized calendar
+  // Subscribe to the daily viewing plan email; sent by the scheduler from the venue's saved plan
   const sendSubscriptionEmail = async () => {
     if (!emailAddress || !emailAddress.includes('@')) {
       setEmailStatus({ type: 'error', message: 'Please enter a valid email address' })
       return
     }
 
-    if (!generatedCalendar) {
-      setEmailStatus({ type: 'error', message: 'No optimized calendar available' })
-      return
-    }
-
-    if (!weeks[currentWeek]) {
-      setEmailStatus({ type: 'error', message: 'No week data available' })
-      return
-    }
-
     setIsSubscriptionEmailSending(true)
     setEmailStatus(null)
 
     try {
-      const weekData = {
-        weekStart: weeks[currentWeek].weekStart.toISOString(),
-        weekEnd: weeks[currentWeek].weekEnd.toISOString(),
-        games: generatedCalendar.optimizedGames,
-        tvSchedule: generatedCalendar.tvSchedule,
-        recommendations: generatedCalendar.recommendations,
-        weekSummary: generatedCalendar.weekSummary,
-        isOptimized: true
-      }
-
-      const response = await fetch('/api/email-schedule', {
+      const response = await fetch('/api/subscriptions', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          weekData,
-          recipientEmail: emailAddress,
-          isOptimizedCalendar: true
+          venueId,
+          recipients: [emailAddress],
+          cadence: 'daily',
+          planType: 'optimized'
         })
       })
 
       const result = await response.json()
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to send subscription email')
+        throw new Error(result.error || 'Failed to subscribe')
+      }
+
+      if (result.confirmationFailed.length > 0) {
+        throw new Error(`Couldn't send the confirmation email to ${emailAddress}`)
       }
 
+      const [subscription] = result.subscriptions
       setEmailStatus({ 
         type: 'success', 
-        message: `Automated viewing plan subscription email sent to ${emailAddress}! 🚀` 
+        message: subscription.status === 'pending'
+          ? `Check ${emailAddress} for a link to confirm the daily viewing plan email 📬`
+          : `${emailAddress} already gets the viewing plan every day at ${subscription.sendTime} - manage subscriptions in Settings`
       })
       
       // Close email input after 3 seconds
@@ -779,7 +867,7 @@ export default function Schedule() {
     } catch (error) {
       setEmailStatus({ 
         type: 'error', 
-        message: error instanceof Error ? error.message : 'Failed to send subscription email' 
+        message: error instanceof Error ? error.message : 'Failed to subscribe' 
       })
     } finally {
       setIsSubscriptionEmailSending(false)
@@ -819,8 +907,8 @@ export default function Schedule() {
       })
 
       const weekData = {
-        weekStart: weeks[currentWeek].weekStart.toISOString(),
-        weekEnd: weeks[currentWeek].weekEnd.toISOString(),
+        weekStart: toWeekBoundary(weeks[currentWeek].weekStart),
+        weekEnd: toWeekBoundary(weeks[currentWeek].weekEnd),
         games: weekGames
       }
 
@@ -831,7 +919,11 @@ export default function Schedule() {
         },
         body: JSON.stringify({
           weekData,
-          userPreferences
+          userPreferences: { ...userPreferences, timezone: venueTimeZone },
+          venueId,
+          generatedBy: managerName,
+          // The shown plan's pins, for games still in the week
+          pinnedAssignments: pinnedAssignments.filter(pin => weekGames.some(game => game.gameId === pin.gameId))
         })
       })
 
@@ -842,6 +934,8 @@ export default function Schedule() {
       }
 
       setGeneratedCalendar(result)
+      setPlanVersion(result.planVersion)
+      setPlanSaveError(result.planVersion === null ? 'This plan could not be saved' : null)
       setGenerateStatus({ 
         type: 'success', 
         message: 'Optimized calendar generated successfully!' 
@@ -967,8 +1061,23 @@ export default function Schedule() {
             Automated Agentic TV Plan Scheduler
           </h1>
           <p className="text-gray-600 mb-4">
-            Last updated: {new Date(scheduleData.meta.time).toLocaleString()}
+            Last updated: {new Date(scheduleData.meta.time).toLocaleString()} · Times shown in {getTimeZoneAbbreviation(venueTimeZone)}
           </p>
+          {scheduleData.source && scheduleData.source !== 'live' && (
+            <p className="inline-block bg-blue-50 text-blue-800 border border-blue-200 px-3 py-1 rounded-lg text-sm mb-4">
+              Offline mode - showing {scheduleData.source === 'fixture' ? 'fixture' : 'recorded'} schedule data
+            </p>
+          )}
+          {scheduleData.cache?.status === 'error' && (
+            <p className="inline-block bg-yellow-50 text-yellow-800 border border-yellow-200 px-3 py-1 rounded-lg text-sm mb-4">
+              NBA schedule service is unavailable - showing the copy saved {Math.max(1, Math.round(scheduleData.cache.ageSeconds / 60))} min ago
+            </p>
+          )}
+          {scheduleData.warnings && scheduleData.warnings.droppedGames.length > 0 && (
+            <p className="text-gray-500 text-xs mb-4">
+              {scheduleData.warnings.droppedGames.length} game{scheduleData.warnings.droppedGames.length !== 1 ? 's' : ''} hidden because the NBA schedule data was incomplete
+            </p>
+          )}
         </header>
 
           
@@ -1017,9 +1126,9 @@ export default function Schedule() {
                 <div className="flex justify-between items-center mb-6 bg-white p-4 rounded-lg shadow-sm">
                   <button
                     onClick={goToPrevWeek}
-                    disabled={currentWeek === 0}
+                    disabled={currentWeek === 0 && (!hasEarlierWeeks || isLoadingEarlierWeeks)}
                     className={`flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                      currentWeek === 0
+                      currentWeek === 0 && (!hasEarlierWeeks || isLoadingEarlierWeeks)
                         ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                         : 'bg-blue-600 text-white hover:bg-blue-700'
                     }`}
@@ -1139,6 +1248,10 @@ export default function Schedule() {
                                 game={game}
                                 position={position}
                                 onGameClick={openGameModal}
+                                liveStatus={liveStatuses[game.gameId]}
+                                timeZone={venueTimeZone}
+                                channelLineup={channelLineup}
+                                zipCode={userPreferences?.zipCode}
                               />
                             )
                           })}
@@ -1188,12 +1301,48 @@ export default function Schedule() {
                     </div>
 
                     <div className="bg-white rounded-b-lg shadow-sm">
+                      {/* Plan View Toggle */}
+                      <div className="flex justify-between items-center px-6 pt-4">
+                        <div className="text-sm">
+                          {planVersion !== null && <span className="text-gray-500">Saved as version {planVersion}</span>}
+                          {planSaveError && <span className="text-red-700">{planSaveError}</span>}
+                        </div>
+                        <div className="flex bg-gray-100 rounded-lg p-1">
+                          {([['tv', 'By TV'], ['day', 'By day']] as const).map(([view, label]) => (
+                            <button
+                              key={view}
+                              onClick={() => setPlanView(view)}
+                              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                                planView === view ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      {planView === 'day' ? (
+                        <div className="p-6">
+                          <AICalendar
+                            generatedCalendar={generatedCalendar}
+                            weekStart={weeks[currentWeek].weekStart}
+                            weekEnd={weeks[currentWeek].weekEnd}
+                            onGameClick={openGameModal}
+                            timeZone={venueTimeZone}
+                            durationStats={scheduleData?.durationStats}
+                            onSave={saveEditedPlan}
+                            embedded
+                          />
+                        </div>
+                      ) : (
+                      <>
                       {/* TV Tabs */}
                       <div className="flex border-b border-gray-200 overflow-x-auto">
                         {Object.entries(generatedCalendar.tvSchedule)
                           .sort(([a], [b]) => parseInt(a) - parseInt(b))
                           .map(([tvNumber, games]) => {
-                            const gamesList = games as Array<Game & { priority: number; tvAssignment: number; color: string; reasoning: string; assignedDate?: string; assignedTimeSlot?: string }>
+                            const gamesList = games
                             const isActive = parseInt(tvNumber) === selectedTvTab
                             return (
                               <button
@@ -1207,7 +1356,7 @@ export default function Schedule() {
                               >
                                 <div className="flex items-center space-x-2">
                                   <span className="text-lg">📺</span>
-                                  <span>TV {tvNumber}</span>
+                                  <span>{getTvName(parseInt(tvNumber))}</span>
                                   <span className="bg-gray-200 text-gray-700 px-2 py-1 rounded-full text-xs">
                                     {gamesList.length}
                                   </span>
@@ -1221,14 +1370,14 @@ export default function Schedule() {
                       {/* Selected TV Content */}
                       <div className="p-6">
                         {(() => {
-                          const selectedTvGames = generatedCalendar.tvSchedule[selectedTvTab] as Array<Game & { priority: number; tvAssignment: number; color: string; reasoning: string; assignedDate?: string; assignedTimeSlot?: string }>
+                          const selectedTvGames = generatedCalendar.tvSchedule[selectedTvTab]
                           
                           if (!selectedTvGames || selectedTvGames.length === 0) {
                             return (
                               <div className="text-center py-12">
                                 <div className="text-4xl mb-4">📺</div>
                                 <h3 className="text-xl font-bold text-gray-900 mb-2">No Games Assigned</h3>
-                                <p className="text-gray-500">TV {selectedTvTab} has no games scheduled</p>
+                                <p className="text-gray-500">{getTvName(selectedTvTab)} has no games scheduled</p>
                               </div>
                             )
                           }
@@ -1239,10 +1388,21 @@ export default function Schedule() {
                               <div className="mb-6 pb-4 border-b border-gray-100">
                                 <h3 className="text-2xl font-bold text-gray-900 flex items-center">
                                   <div className="bg-gray-800 text-white px-4 py-2 rounded-lg mr-4">
-                                    📺 TV {selectedTvTab}
+                                    📺 {getTvName(selectedTvTab)}
                                   </div>
                                   <span className="text-gray-600">({selectedTvGames.length} games)</span>
                                 </h3>
+                                {pinnedAssignments.length > 0 && (
+                                  <div className="mt-3 flex items-center space-x-3 text-sm text-gray-600">
+                                    <span>📌 {pinnedAssignments.length} pinned - generate again to re-plan everything else around them</span>
+                                    <button
+                                      onClick={() => saveEditedPlan({ pinnedAssignments: [] })}
+                                      className="text-blue-600 hover:text-blue-800 font-medium"
+                                    >
+                                      Clear pins
+                                    </button>
+                                  </div>
+                                )}
                               </div>
 
                               {/* Games List */}
@@ -1253,7 +1413,7 @@ export default function Schedule() {
                                     const dateA = a.assignedDate || a.gameDateEst
                                     const dateB = b.assignedDate || b.gameDateEst
                                     if (dateA !== dateB) return dateA.localeCompare(dateB)
-                                    return a.gameStatusText.localeCompare(b.gameStatusText)
+                                    return a.gameDateTimeUTC.localeCompare(b.gameDateTimeUTC)
                                   })
                                   .map((game, index) => (
                                     <div 
@@ -1274,7 +1434,7 @@ export default function Schedule() {
                                           </div>
                                           
                                           <div className="text-lg text-gray-700 font-medium mb-3">
-                                            {game.assignedTimeSlot || game.gameStatusText}
+                                            {game.assignedTimeSlot || formatGameTime(game)}
                                           </div>
                                           
                                           <div className="text-sm text-gray-600 bg-white rounded-lg px-4 py-3 italic">
@@ -1283,7 +1443,28 @@ export default function Schedule() {
                                         </div>
                                         
                                         <div className="ml-6 flex flex-col items-end">
+                                          <button
+                                            onClick={(e) => {
+                                              e.stopPropagation()
+                                              togglePin(game.gameId, selectedTvTab)
+                                            }}
+                                            className={`mb-2 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                                              isPinned(game.gameId, selectedTvTab)
+                                                ? 'bg-blue-600 text-white hover:bg-blue-700'
+                                                : 'bg-white text-gray-600 border border-gray-300 hover:bg-gray-100'
+                                            }`}
+                                            title={isPinned(game.gameId, selectedTvTab)
+                                              ? 'Unpin - the next plan may move this game'
+                                              : `Pin - the next plan keeps this game on ${getTvName(selectedTvTab)}`}
+                                          >
+                                            📌 {isPinned(game.gameId, selectedTvTab) ? 'Pinned' : 'Pin'}
+                                          </button>
                                           <StarRating rating={getStarRating(game.priority)} />
+                                          {game.priorityBreakdown && (
+                                            <div className="text-xs text-gray-500 mt-2 text-right max-w-48">
+                                              {formatPriorityBreakdown(game.priorityBreakdown)}
+                                            </div>
+                                          )}
                                         </div>
                                       </div>
                                     </div>
@@ -1294,6 +1475,8 @@ export default function Schedule() {
                           )
                         })()}
                       </div>
+                      </>
+                      )}
 
                       {/* AI Recommendations */}
                       <div className="mt-8 bg-blue-50 rounded-lg p-6">
@@ -1308,6 +1491,20 @@ export default function Schedule() {
                         </ul>
                       </div>
 
+                      {currentWeekKey && (
+                        <PlanHistory
+                          venueId={venueId}
+                          weekKey={currentWeekKey}
+                          currentVersion={planVersion}
+                          timeZone={venueTimeZone}
+                          onLoad={(saved) => {
+                            setGeneratedCalendar(saved.plan)
+                            setPlanVersion(saved.version)
+                            setPlanSaveError(null)
+                          }}
+                        />
+                      )}
+
                       {/* Email Section */}
                       <div id="email-optimized-plan" className="mt-8 bg-green-50 rounded-lg p-6">
                         <h4 className="text-lg font-bold text-green-900 mb-4 flex items-center">
@@ -1458,8 +1655,13 @@ export default function Schedule() {
                         <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-6">
                           <div className="text-center">
                             <div className="text-4xl font-black mb-2">
-                              {formatGameTime(game.gameStatusText)}
+                              {formatGameTime(game)}
                             </div>
+                            {liveStatuses[game.gameId] && (
+                              <div className="mb-2">
+                                <LiveStatusBadge status={liveStatuses[game.gameId]} size="lg" />
+                              </div>
+                            )}
                             {game.gameSubLabel && (
                               <div className="bg-orange-500 text-white px-4 py-2 rounded-full text-lg font-bold inline-block">
                                 {game.gameSubLabel}
@@ -1533,19 +1735,19 @@ export default function Schedule() {
                               <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
                               </svg>
-                              <span className="text-lg font-bold text-green-800">WATCH ON</span>
+                              <span className="text-lg font-bold text-green-800">WATCH ON{providerName ? ` ${providerName}` : ''}</span>
                             </div>
                             
-                            {getAllBroadcasters(game.broadcasters).length > 0 ? (
+                            {getTunedBroadcasters(game.broadcasters, channelLineup).length > 0 ? (
                               <div className="flex flex-wrap gap-2 justify-center">
-                                {getAllBroadcasters(game.broadcasters).slice(0, 4).map((broadcaster, idx) => (
+                                {getTunedBroadcasters(game.broadcasters, channelLineup).slice(0, 4).map((broadcaster, idx) => (
                                   <span key={idx} className="bg-green-600 text-white px-4 py-2 rounded-full text-base font-bold">
-                                    {broadcaster}
+                                    {formatTunedBroadcaster(broadcaster)}
                                   </span>
                                 ))}
-                                {getAllBroadcasters(game.broadcasters).length > 4 && (
+                                {getTunedBroadcasters(game.broadcasters, channelLineup).length > 4 && (
                                   <span className="bg-green-500 text-white px-4 py-2 rounded-full text-base font-bold">
-                                    +{getAllBroadcasters(game.broadcasters).length - 4} more
+                                    +{getTunedBroadcasters(game.broadcasters, channelLineup).length - 4} more
                                   </span>
                                 )}
                               </div>
@@ -1563,9 +1765,19 @@ export default function Schedule() {
                             <div className="bg-blue-50 rounded-lg p-3">
                               <div className="text-sm text-blue-600 font-medium mb-1">ESTIMATED DURATION</div>
                               <div className="text-lg font-bold text-blue-800">
-                                {formatGameTime(game.gameStatusText)} - {getEndTime(game.gameStatusText)}
+                                {formatGameTime(game)} - {getEndTime(game)}
+                              </div>
+                              <div className="text-sm text-blue-600">
+                                {liveStatuses[game.gameId]?.gameStatus === 2
+                                  ? 'Updated from the live score'
+                                  : `~${formatDuration(estimateGameDurationMinutes(game, scheduleData?.durationStats))} based on past games`}
                               </div>
-                              <div className="text-sm text-blue-600">~3.5 hours including coverage</div>
+                              {liveStatuses[game.gameId] && isFinal(liveStatuses[game.gameId]) && (
+                                <div className="mt-2 text-base font-bold text-green-700">Game over - this TV is free</div>
+                              )}
+                              {liveStatuses[game.gameId] && !isFinal(liveStatuses[game.gameId]) && isOvertime(liveStatuses[game.gameId]) && (
+                                <div className="mt-2 text-base font-bold text-amber-700">Overtime - running long</div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -1612,8 +1824,9 @@ export default function Schedule() {
                           </div>
                           <div className="text-right">
                             <div className="text-lg font-semibold text-blue-600">
-                              {formatGameTime(game.gameStatusText)}
+                              {formatGameTime(game)}
                             </div>
+                            <LiveStatusBadge status={liveStatuses[game.gameId]} />
                           </div>
                         </div>
 
@@ -1671,11 +1884,11 @@ export default function Schedule() {
                             </svg>
                             <div className="flex-1">
                               <span className="text-sm text-gray-500 block mb-1">Broadcast:</span>
-                              {getAllBroadcasters(game.broadcasters).length > 0 ? (
+                              {getTunedBroadcasters(game.broadcasters, channelLineup).length > 0 ? (
                                 <div className="flex flex-wrap gap-1">
-                                  {getAllBroadcasters(game.broadcasters).map((broadcaster, idx) => (
+                                  {getTunedBroadcasters(game.broadcasters, channelLineup).map((broadcaster, idx) => (
                                     <span key={idx} className="bg-green-100 text-green-800 px-2 py-1 rounded text-xs">
-                                      {broadcaster}
+                                      {formatTunedBroadcaster(broadcaster)}
                                     </span>
                                   ))}
                                 </div>
@@ -1827,8 +2040,9 @@ export default function Schedule() {
                 <div className="text-center mb-6">
                   <div className="inline-flex items-center space-x-3 bg-blue-50 px-4 py-2 rounded-lg">
                     <div className="text-2xl font-bold text-blue-600">
-                      {selectedGame.gameStatusText}
+                      {formatGameTime(selectedGame)}
                     </div>
+                    <LiveStatusBadge status={liveStatuses[selectedGame.gameId]} />
                     <div className="text-gray-600">
                       {formatDate(selectedGame.gameDateEst)}
                     </div>
@@ -1933,8 +2147,22 @@ export default function Schedule() {
                     </svg>
                     Broadcast Information
                   </h4>
-                  
-                  {getAllBroadcasters(selectedGame.broadcasters).length > 0 ? (
+
+                  {/* Why the venue can't show this game, or which of its feeds are blacked out */}
+                  {selectedWatchability && !selectedWatchability.watchable && (
+                    <div className="mb-3 px-3 py-2 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+                      Not watchable here - {selectedWatchability.reason}
+                    </div>
+                  )}
+                  {selectedWatchability?.watchable && selectedWatchability.blackedOut.length > 0 && (
+                    <div className="mb-3 px-3 py-2 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700">
+                      {selectedWatchability.blackedOut.map((feed, idx) => (
+                        <div key={idx}>{feed.reason}</div>
+                      ))}
+                    </div>
+                  )}
+
+                  {getBroadcasterNames(selectedGame.broadcasters).length > 0 ? (
                     <div className="grid gap-3">
                       {/* National Broadcasters */}
                       {selectedGame.broadcasters.nationalBroadcasters.length > 0 && (
@@ -1943,7 +2171,7 @@ export default function Schedule() {
                           <div className="flex flex-wrap gap-2">
                             {selectedGame.broadcasters.nationalBroadcasters.map((broadcaster, idx) => (
                               <span key={idx} className="bg-green-100 text-green-800 px-3 py-1 rounded text-sm font-medium">
-                                {broadcaster.broadcasterDisplay}
+                                {formatTvBroadcaster(broadcaster)}
                               </span>
                             ))}
                           </div>
@@ -1957,7 +2185,7 @@ export default function Schedule() {
                           <div className="flex flex-wrap gap-2">
                             {selectedGame.broadcasters.homeTvBroadcasters.map((broadcaster, idx) => (
                               <span key={idx} className="bg-blue-100 text-blue-800 px-3 py-1 rounded text-sm font-medium">
-                                {broadcaster.broadcasterDisplay}
+                                {formatTvBroadcaster(broadcaster)}
                               </span>
                             ))}
                           </div>
@@ -1985,7 +2213,7 @@ export default function Schedule() {
                           <div className="flex flex-wrap gap-2">
                             {selectedGame.broadcasters.awayTvBroadcasters.map((broadcaster, idx) => (
                               <span key={idx} className="bg-orange-100 text-orange-800 px-3 py-1 rounded text-sm font-medium">
-                                {broadcaster.broadcasterDisplay}
+                                {formatTvBroadcaster(broadcaster)}
                               </span>
                             ))}
                           </div>
@@ -2077,6 +2305,17 @@ export default function Schedule() {
                           </div>
                         </div>
                       )}
+
+                      <label htmlFor="managerName" className="block text-sm font-medium text-gray-700 mb-1">
+                        Your name <span className="text-gray-400 font-normal">(shown in the plan&apos;s version history)</span>
+                      </label>
+                      <input
+                        id="managerName"
+                        type="text"
+                        value={managerName}
+                        onChange={(e) => updateManagerName(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+                      />
                     </div>
 
                     {generateStatus && (
@@ -2141,14 +2380,14 @@ export default function Schedule() {
                     {/* TV Schedule */}
                     <div className="grid gap-6 mb-6">
                       {Object.entries(generatedCalendar.tvSchedule).map(([tvNumber, games]) => {
-                        const gamesList = games as Array<Game & { priority: number; tvAssignment: number; color: string; reasoning: string }>
+                        const gamesList = games
                         return (
                         <div key={tvNumber} className="bg-gray-50 rounded-lg p-4">
                           <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
                             <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                             </svg>
-                            TV {tvNumber} ({gamesList.length} games)
+                            {getTvName(parseInt(tvNumber))} ({gamesList.length} games)
                           </h4>
                           <div className="space-y-2">
                             {gamesList.map((game) => (
@@ -2159,11 +2398,11 @@ export default function Schedule() {
                                       {game.awayTeam.teamTricode} @ {game.homeTeam.teamTricode}
                                     </div>
                                     <div className="text-sm text-gray-600">
-                                      {game.gameStatusText}
+                                      {formatGameTime(game)}
                                     </div>
                                   </div>
                                   <div className="text-right">
-                                    <div className="text-lg" title={`Priority: ${game.priority}/10`}>
+                                    <div className="text-lg" title={formatPriorityTitle(game.priority, game.priorityBreakdown)}>
                                       {'⭐'.repeat(Math.max(1, Math.min(5, Math.round(game.priority / 2))))}
                                     </div>
                                   </div>
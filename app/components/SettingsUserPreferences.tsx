@@ -1,120 +1,127 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-
-interface UserPreferences {
-  sportsInterests: string[]
-  numberOfTvs: number
-  tvSetupDescription: string
-  favoriteNbaTeams: string[]
-  zipCode: string
-}
-
-const NBA_TEAMS = [
-  { value: 'ATL', label: 'Atlanta Hawks' },
-  { value: 'BOS', label: 'Boston Celtics' },
-  { value: 'BKN', label: 'Brooklyn Nets' },
-  { value: 'CHA', label: 'Charlotte Hornets' },
-  { value: 'CHI', label: 'Chicago Bulls' },
-  { value: 'CLE', label: 'Cleveland Cavaliers' },
-  { value: 'DAL', label: 'Dallas Mavericks' },
-  { value: 'DEN', label: 'Denver Nuggets' },
-  { value: 'DET', label: 'Detroit Pistons' },
-  { value: 'GSW', label: 'Golden State Warriors' },
-  { value: 'HOU', label: 'Houston Rockets' },
-  { value: 'IND', label: 'Indiana Pacers' },
-  { value: 'LAC', label: 'LA Clippers' },
-  { value: 'LAL', label: 'Los Angeles Lakers' },
-  { value: 'MEM', label: 'Memphis Grizzlies' },
-  { value: 'MIA', label: 'Miami Heat' },
-  { value: 'MIL', label: 'Milwaukee Bucks' },
-  { value: 'MIN', label: 'Minnesota Timberwolves' },
-  { value: 'NOP', label: 'New Orleans Pelicans' },
-  { value: 'NYK', label: 'New York Knicks' },
-  { value: 'OKC', label: 'Oklahoma City Thunder' },
-  { value: 'ORL', label: 'Orlando Magic' },
-  { value: 'PHI', label: 'Philadelphia 76ers' },
-  { value: 'PHX', label: 'Phoenix Suns' },
-  { value: 'POR', label: 'Portland Trail Blazers' },
-  { value: 'SAC', label: 'Sacramento Kings' },
-  { value: 'SAS', label: 'San Antonio Spurs' },
-  { value: 'TOR', label: 'Toronto Raptors' },
-  { value: 'UTA', label: 'Utah Jazz' },
-  { value: 'WAS', label: 'Washington Wizards' }
-]
+import ChannelLineupEditor from './ChannelLineupEditor'
+import EmailSubscriptionsEditor from './EmailSubscriptionsEditor'
+import PriorityRulesEditor from './PriorityRulesEditor'
+import SubscriptionsEditor from './SubscriptionsEditor'
+import TvInventoryEditor from './TvInventoryEditor'
+import VenueSelector from './VenueSelector'
+import { SPORTS, isSportAvailable } from '@/lib/leagues/sports'
+import { DEFAULT_VENUE_ID, UserPreferences } from '@/lib/domain'
+import { NBA_TEAMS } from '@/lib/leagues/nba-teams'
+import { PREFERENCES_UPDATED_EVENT, getSelectedVenueId, loadPreferences, savePreferences, selectVenue } from '@/lib/preferences-client'
+import { DEFAULT_PRIORITY_RULES, PRIORITY_BASE } from '@/lib/priority-rules'
+import { getTvInventory } from '@/lib/tv-inventory'
+import { COMMON_TIME_ZONES, DEFAULT_TIME_ZONE, getTimeZoneForZip, resolveTimeZone } from '@/lib/timezone'
 
 interface SettingsUserPreferencesProps {
   onPreferencesChange?: (preferences: UserPreferences) => void
 }
 
-// Helper functions for localStorage operations
-const STORAGE_KEY = 'sports-scheduler-user-preferences'
+// Typing saves once the manager pauses
+const SAVE_DELAY_MS = 500
 
-const loadPreferencesFromStorage = (): UserPreferences | null => {
-  if (typeof window === 'undefined') return null
-  
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored) {
-      return JSON.parse(stored)
-    }
-  } catch (error) {
-    console.error('Failed to load preferences from localStorage:', error)
-  }
-  return null
-}
-
-const savePreferencesToStorage = (preferences: UserPreferences): void => {
-  if (typeof window === 'undefined') return
-  
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
-  } catch (error) {
-    console.error('Failed to save preferences to localStorage:', error)
-  }
+const EMPTY_PREFERENCES: UserPreferences = {
+  sportsInterests: [],
+  numberOfTvs: 1,
+  tvSetupDescription: '',
+  favoriteNbaTeams: [],
+  zipCode: ''
 }
 
 export default function SettingsUserPreferences({ onPreferencesChange }: SettingsUserPreferencesProps) {
-  const [preferences, setPreferences] = useState<UserPreferences>({
-    sportsInterests: [],
-    numberOfTvs: 1,
-    tvSetupDescription: '',
-    favoriteNbaTeams: [],
-    zipCode: ''
-  })
-
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle')
+  const [preferences, setPreferences] = useState<UserPreferences>(EMPTY_PREFERENCES)
+
+  const [venueId, setVenueId] = useState<string | null>(null)
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const onPreferencesChangeRef = useRef(onPreferencesChange)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const pendingSave = useRef<(() => Promise<void>) | null>(null)
 
   // Update ref when callback changes
   useEffect(() => {
     onPreferencesChangeRef.current = onPreferencesChange
   }, [onPreferencesChange])
 
-  // Load preferences from localStorage on component mount
+  // The venue this device plans for is only known in the browser
+  useEffect(() => {
+    setVenueId(getSelectedVenueId())
+  }, [])
+
+  // Load the venue's preferences whenever it changes
   useEffect(() => {
-    const savedPreferences = loadPreferencesFromStorage()
-    if (savedPreferences) {
-      setPreferences(savedPreferences)
-      onPreferencesChangeRef.current?.(savedPreferences)
+    if (!venueId) return
+    let cancelled = false
+
+    const showPreferences = async () => {
+      try {
+        const savedPreferences = await loadPreferences(venueId)
+        if (cancelled) return
+        if (savedPreferences) {
+          // Preferences saved before venues had a time zone get the zip code's or the browser's
+          const withTimeZone = savedPreferences.timezone
+            ? savedPreferences
+            : { ...savedPreferences, timezone: resolveTimeZone(savedPreferences) }
+          setPreferences(withTimeZone)
+          onPreferencesChangeRef.current?.(withTimeZone)
+        } else {
+          setPreferences({ ...EMPTY_PREFERENCES, timezone: resolveTimeZone() })
+        }
+      } catch (error) {
+        console.error('Failed to load preferences:', error)
+        if (!cancelled) setSaveStatus('error')
+      }
+    }
+
+    showPreferences()
+    return () => {
+      cancelled = true
     }
-  }, []) // Empty dependency array - only run on mount
+  }, [venueId])
+
+  // Save anything still waiting when leaving the page
+  useEffect(() => () => {
+    clearTimeout(saveTimer.current)
+    pendingSave.current?.()
+  }, [])
+
+  const flushSave = async () => {
+    clearTimeout(saveTimer.current)
+    const save = pendingSave.current
+    pendingSave.current = null
+    await save?.()
+  }
+
+  const scheduleSave = (updated: UserPreferences) => {
+    pendingSave.current = async () => {
+      try {
+        await savePreferences(venueId ?? DEFAULT_VENUE_ID, updated)
+        setSaveStatus('saved')
+        // Notify other components
+        window.dispatchEvent(new CustomEvent(PREFERENCES_UPDATED_EVENT))
+        setTimeout(() => setSaveStatus(status => status === 'saved' ? 'idle' : status), 2000)
+      } catch (error) {
+        console.error('Failed to save preferences:', error)
+        setSaveStatus('error')
+      }
+    }
+    setSaveStatus('saving')
+    clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(flushSave, SAVE_DELAY_MS)
+  }
 
   const handlePreferenceChange = (newPreferences: Partial<UserPreferences>) => {
     const updated = { ...preferences, ...newPreferences }
     setPreferences(updated)
-    savePreferencesToStorage(updated)
     onPreferencesChangeRef.current?.(updated)
-    
-    // Dispatch custom event to notify other components
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('preferencesUpdated'))
-    }
-    
-    // Show save feedback
-    setSaveStatus('saving')
-    setTimeout(() => setSaveStatus('saved'), 300)
-    setTimeout(() => setSaveStatus('idle'), 2000)
+    scheduleSave(updated)
+  }
+
+  const handleVenueChange = async (selectedVenueId: string) => {
+    await flushSave()
+    selectVenue(selectedVenueId)
+    setVenueId(selectedVenueId)
   }
 
   const handleSportsInterestChange = (sport: string) => {
@@ -125,6 +132,18 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
     handlePreferenceChange({ sportsInterests: updatedInterests })
   }
 
+  // A zip code in a known region also sets the time zone; it can still be changed afterwards
+  const handleZipCodeChange = (zipCode: string) => {
+    const zipTimeZone = getTimeZoneForZip(zipCode)
+    handlePreferenceChange(zipTimeZone ? { zipCode, timezone: zipTimeZone } : { zipCode })
+  }
+
+  // Filled in on mount - the browser's zone isn't known during server rendering
+  const selectedTimeZone = preferences.timezone ?? DEFAULT_TIME_ZONE
+  const timeZoneOptions = COMMON_TIME_ZONES.some(zone => zone.value === selectedTimeZone)
+    ? COMMON_TIME_ZONES
+    : [...COMMON_TIME_ZONES, { value: selectedTimeZone, label: selectedTimeZone }]
+
   const handleNbaTeamChange = (teamValue: string) => {
     const updatedTeams = preferences.favoriteNbaTeams.includes(teamValue)
       ? preferences.favoriteNbaTeams.filter(t => t !== teamValue)
@@ -150,6 +169,19 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
               Saved
             </div>
           )}
+          {saveStatus === 'error' && (
+            <div className="text-red-600 text-sm">Couldn&apos;t reach the server - changes aren&apos;t saved</div>
+          )}
+        </div>
+
+        {/* Venue */}
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Venue</label>
+          <VenueSelector venueId={venueId ?? DEFAULT_VENUE_ID} onSelect={handleVenueChange} />
+          <p className="text-xs text-gray-500 mt-1">
+            Preferences are saved on the server for the venue, so every device and the email scheduler use the same ones.
+            This device remembers which venue it plans for.
+          </p>
         </div>
       </div>
 
@@ -160,66 +192,119 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">
               Sports Interests
-              <span className="text-gray-400 text-xs ml-2">(Coming Soon)</span>
             </label>
-            <div className="space-y-2 opacity-50 pointer-events-none">
-              {['Basketball', 'Football', 'Baseball', 'Hockey', 'Soccer', 'Tennis'].map((sport) => (
-                <label key={sport} className="flex items-center">
+            <div className="space-y-2">
+              {SPORTS.map((sport) => (
+                <label key={sport} className={`flex items-center ${isSportAvailable(sport) ? '' : 'opacity-50 pointer-events-none'}`}>
                   <input
                     type="checkbox"
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                     checked={preferences.sportsInterests.includes(sport)}
                     onChange={() => handleSportsInterestChange(sport)}
-                    disabled
+                    disabled={!isSportAvailable(sport)}
                   />
                   <span className="ml-2 text-sm text-gray-700">{sport}</span>
+                  {!isSportAvailable(sport) && (
+                    <span className="text-gray-400 text-xs ml-2">(Coming Soon)</span>
+                  )}
                 </label>
               ))}
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              Select the sports you&apos;re most interested in following
+              Select the sports you&apos;re most interested in following (none selected shows every available sport)
             </p>
           </div>
 
-          {/* Number of TVs */}
-          <div>
-            <label htmlFor="numberOfTvs" className="block text-sm font-medium text-gray-700 mb-2">
-              Number of TVs Available
+          {/* TV Inventory */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Your TVs
             </label>
-            <div className="relative">
-              <input
-                id="numberOfTvs"
-                type="number"
-                min="1"
-                max="10"
-                value={preferences.numberOfTvs}
-                onChange={(e) => {
-                  const value = e.target.value === '' ? 1 : Math.max(1, Math.min(10, parseInt(e.target.value) || 1))
-                  handlePreferenceChange({ numberOfTvs: value })
-                }}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-              />
-            </div>
-            <p className="text-xs text-gray-500 mt-1">
-              How many TVs can you watch simultaneously?
+            <TvInventoryEditor
+              tvs={getTvInventory(preferences)}
+              onChange={(tvs) => handlePreferenceChange({ tvs, numberOfTvs: tvs.length })}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              The highest priority games go to the most prominent TVs; a TV with sound counts as one point more prominent. List the inputs and services each TV can tune.
             </p>
           </div>
 
-          {/* TV Setup Description */}
+          {/* Channel Lineup */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Channel Lineup
+            </label>
+            <ChannelLineupEditor
+              providerId={preferences.channelProvider}
+              overrides={preferences.channelOverrides ?? []}
+              onChange={handlePreferenceChange}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              Channel numbers are shown next to each network. National networks come from your provider; add your regional sports networks and local stations, which differ by market.
+            </p>
+          </div>
+
+          {/* Subscriptions */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Subscriptions
+            </label>
+            <SubscriptionsEditor
+              subscriptions={preferences.subscriptions}
+              unwatchableGames={preferences.unwatchableGames}
+              onChange={handlePreferenceChange}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              AI plans skip games none of your networks or services carry, or give them only the TVs nothing else needs. Game details explain why a game can&apos;t be shown.
+            </p>
+          </div>
+
+          {/* Email and Text Subscriptions */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Scheduled Emails and Texts
+            </label>
+            {venueId && <EmailSubscriptionsEditor venueId={venueId} />}
+            <p className="text-xs text-gray-500 mt-2">
+              Sent automatically at the time shown in your venue&apos;s time zone. &quot;Saved TV plan&quot; sends the plan last saved on the schedule page, or the game schedule when there isn&apos;t one.
+            </p>
+          </div>
+
+          {/* Calendar Feeds */}
+          {venueId && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Calendar Feeds
+              </label>
+              <div className="flex flex-wrap gap-4 text-sm">
+                <a href={`/api/calendar.ics?feed=plan&venue=${encodeURIComponent(venueId)}`} className="text-blue-600 hover:text-blue-800">
+                  Saved TV plan (.ics)
+                </a>
+                <a href={`/api/calendar.ics?teams=favorites&venue=${encodeURIComponent(venueId)}`} className="text-blue-600 hover:text-blue-800">
+                  Favorite teams&apos; games (.ics)
+                </a>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Copy a link and subscribe to it in your calendar app to keep staff phones up to date as plans are saved.
+              </p>
+            </div>
+          )}
+
+          {/* TV Setup Notes */}
           <div className="md:col-span-2">
             <label htmlFor="tvSetupDescription" className="block text-sm font-medium text-gray-700 mb-2">
-              Describe Your TV Setup
+              TV Setup Notes
             </label>
             <textarea
               id="tvSetupDescription"
-              rows={3}
+              rows={2}
               value={preferences.tvSetupDescription}
               onChange={(e) => handlePreferenceChange({ tvSetupDescription: e.target.value })}
-              placeholder="e.g., 65' main TV in living room, 32' in kitchen, projector in basement. Main TV has surround sound..."
+              placeholder="e.g., Patio TVs are only on when the weather is nice, the bar crowd follows the Warriors..."
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
             />
             <p className="text-xs text-gray-500 mt-1">
-              Help AI optimize your viewing experience by describing your TV locations, sizes, audio setup, etc.
+              Anything else about your setup - used for the AI recommendations that accompany each plan
             </p>
           </div>
 
@@ -260,13 +345,49 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
               pattern="[0-9]{5}(-[0-9]{4})?"
               placeholder="12345"
               value={preferences.zipCode}
-              onChange={(e) => handlePreferenceChange({ zipCode: e.target.value })}
+              onChange={(e) => handleZipCodeChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
             />
             <p className="text-xs text-gray-500 mt-1">
               Used for local broadcast information and timezone
             </p>
           </div>
+
+          {/* Time Zone */}
+          <div>
+            <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-2">
+              Venue Time Zone
+            </label>
+            <select
+              id="timezone"
+              value={selectedTimeZone}
+              onChange={(e) => handlePreferenceChange({ timezone: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            >
+              {timeZoneOptions.map(zone => (
+                <option key={zone.value} value={zone.value}>
+                  {zone.label} ({zone.value})
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Game times in the calendar, emails and AI plans are shown in this zone
+            </p>
+          </div>
+
+          {/* Priority Rules */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-3">
+              Priority Rules
+            </label>
+            <PriorityRulesEditor
+              rules={preferences.priorityRules ?? DEFAULT_PRIORITY_RULES}
+              onChange={(priorityRules) => handlePreferenceChange({ priorityRules })}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              Every game starts at {PRIORITY_BASE} out of 10 and each matching rule adds its points. AI plans show which rules fired for each game.
+            </p>
+          </div>
         </div>
 
         {/* Action Buttons */}
@@ -285,24 +406,10 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
           {/* Reset Button */}
           <button
             onClick={() => {
-              const defaultPreferences: UserPreferences = {
-                sportsInterests: [],
-                numberOfTvs: 1,
-                tvSetupDescription: '',
-                favoriteNbaTeams: [],
-                zipCode: ''
-              }
+              const defaultPreferences: UserPreferences = { ...EMPTY_PREFERENCES, timezone: resolveTimeZone() }
               setPreferences(defaultPreferences)
-              savePreferencesToStorage(defaultPreferences)
               onPreferencesChangeRef.current?.(defaultPreferences)
-              
-              // Dispatch custom event to notify other components
-              if (typeof window !== 'undefined') {
-                window.dispatchEvent(new CustomEvent('preferencesUpdated'))
-              }
-              
-              setSaveStatus('saved')
-              setTimeout(() => setSaveStatus('idle'), 2000)
+              scheduleSave(defaultPreferences)
             }}
             className="w-full sm:w-auto px-6 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
           >
@@ -337,6 +444,11 @@ export default function SettingsUserPreferences({ onPreferencesChange }: Setting
                   Zip: {preferences.zipCode}
                 </span>
               )}
+              {preferences.timezone && (
+                <span className="bg-purple-100 text-purple-800 px-2 py-1 rounded text-sm">
+                  Time zone: {preferences.timezone}
+                </span>
+              )}
               {preferences.tvSetupDescription && (
                 <span className="bg-indigo-100 text-indigo-800 px-2 py-1 rounded text-sm">
                   TV Setup: {preferences.tvSetupDescription.length > 50 ? 
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Subscription, SubscriptionCadence } from '@/lib/domain'
+
+type RecipientView = Pick<Subscription, 'channel' | 'address' | 'cadence' | 'sendTime' | 'planType' | 'status'> & {
+  venueName: string
+}
+
+interface SubscriptionManagerProps {
+  token: string
+  // The link the recipient followed; confirming and unsubscribing still take a click so that link
+  // scanners opening the page don't do either
+  action: 'confirm' | 'unsubscribe' | null
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+const primaryButtonClassName = 'px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400 text-sm font-medium'
+const secondaryButtonClassName = 'px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium'
+
+const CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  daily: 'Every morning - the day\'s games',
+  weekly: 'Mondays - the week ahead'
+}
+
+export default function SubscriptionManager({ token, action }: SubscriptionManagerProps) {
+  const [subscription, setSubscription] = useState<RecipientView | null>(null)
+  const [cadence, setCadence] = useState<SubscriptionCadence>('daily')
+  const [sendTime, setSendTime] = useState('09:00')
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const showSubscription = (result: RecipientView) => {
+    setSubscription(result)
+    setCadence(result.cadence)
+    setSendTime(result.sendTime)
+  }
+
+  useEffect(() => {
+    const loadSubscription = async () => {
+      try {
+        const response = await fetch(`/api/subscriptions/manage?token=${encodeURIComponent(token)}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'This link is no longer valid.' : result.error || 'Failed to load subscription')
+        }
+        showSubscription(result)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load subscription')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSubscription()
+  }, [token])
+
+  const updateSubscription = async (body: Record<string, string>, doneMessage: string) => {
+    try {
+      const response = await fetch('/api/subscriptions/manage', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, ...body })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update subscription')
+      }
+      showSubscription(result)
+      setMessage(doneMessage)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription')
+    }
+  }
+
+  if (loading) {
+    return <p className="text-gray-600">Loading...</p>
+  }
+
+  if (!subscription) {
+    return <p className="text-red-600">{error}</p>
+  }
+
+  const contents = subscription.planType === 'optimized' ? 'TV plan' : 'game schedule'
+  const askToUnsubscribe = action === 'unsubscribe' && !message
+  const messages = subscription.channel === 'sms' ? 'texts' : 'emails'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <p className="text-gray-700 mb-4">
+        <span className="font-medium text-gray-900">{subscription.address}</span> gets the {contents} for {subscription.venueName} by {subscription.channel === 'sms' ? 'text message' : 'email'}.
+      </p>
+
+      {message && <p className="text-sm text-green-700 mb-4">{message}</p>}
+
+      {subscription.status === 'pending' && (
+        <div>
+          <p className="text-sm text-gray-600 mb-4">
+            {action === 'confirm' ? `Confirm to start receiving these ${messages}.` : 'This subscription hasn\'t been confirmed yet.'}
+          </p>
+          <button onClick={() => updateSubscription({ action: 'confirm' }, 'You\'re subscribed.')} className={primaryButtonClassName}>
+            Confirm subscription
+          </button>
+        </div>
+      )}
+
+      {subscription.status === 'active' && (
+        <div className="space-y-4">
+          {askToUnsubscribe && (
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-700 mb-3">Stop these {messages}?</p>
+              <button onClick={() => updateSubscription({ action: 'unsubscribe' }, 'You\'ve been unsubscribed.')} className={primaryButtonClassName}>
+                Unsubscribe
+              </button>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <select value={cadence} onChange={(e) => setCadence(e.target.value as SubscriptionCadence)} className={inputClassName} aria-label="Cadence">
+              {Object.entries(CADENCE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={sendTime}
+              onChange={(e) => setSendTime(e.target.value)}
+              className={inputClassName}
+              aria-label="Send time"
+            />
+            <button
+              onClick={() => updateSubscription({ action: 'update', cadence, sendTime }, 'Your changes are saved.')}
+              disabled={cadence === subscription.cadence && sendTime === subscription.sendTime}
+              className={primaryButtonClassName}
+            >
+              Save
+            </button>
+          </div>
+
+          {!askToUnsubscribe && (
+            <button onClick={() => updateSubscription({ action: 'unsubscribe' }, 'You\'ve been unsubscribed.')} className={secondaryButtonClassName}>
+              Stop {messages}
+            </button>
+          )}
+        </div>
+      )}
+
+      {subscription.status === 'unsubscribed' && (
+        <div>
+          <p className="text-sm text-gray-600 mb-4">You won&apos;t get any more of these {messages}.</p>
+          <button onClick={() => updateSubscription({ action: 'confirm' }, 'You\'re subscribed again.')} className={secondaryButtonClassName}>
+            Resubscribe
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-4">{error}</p>}
+    </div>
+  )
+}
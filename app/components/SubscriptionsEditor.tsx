@@ -0,0 +1,115 @@
+'use client'
+
+import type { UnwatchableGameHandling, UserPreferences } from '@/lib/domain'
+import { NATIONAL_NETWORKS, STREAMING_SERVICES, getUnwatchableGameHandling } from '@/lib/watchability'
+
+interface SubscriptionsEditorProps {
+  subscriptions?: string[]
+  unwatchableGames?: UnwatchableGameHandling
+  onChange: (changes: Pick<UserPreferences, 'subscriptions' | 'unwatchableGames'>) => void
+}
+
+const checkboxClassName = 'rounded border-gray-300 text-blue-600 focus:ring-blue-500'
+
+// Regional networks are edited as a comma-separated list
+function parseNetworks(value: string) {
+  return value.split(',').map(network => network.trim()).filter(Boolean)
+}
+
+function ServiceCheckboxes({ title, services, selected, onToggle }: {
+  title: string
+  services: string[]
+  selected: string[]
+  onToggle: (service: string) => void
+}) {
+  return (
+    <div>
+      <div className="text-xs font-medium text-gray-500 uppercase mb-2">{title}</div>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {services.map(service => (
+          <label key={service} className="flex items-center">
+            <input
+              type="checkbox"
+              className={checkboxClassName}
+              checked={selected.includes(service)}
+              onChange={() => onToggle(service)}
+            />
+            <span className="ml-2 text-sm text-gray-700">{service}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default function SubscriptionsEditor({ subscriptions, unwatchableGames, onChange }: SubscriptionsEditorProps) {
+  const handling = getUnwatchableGameHandling({ unwatchableGames })
+  const regionalNetworks = (subscriptions ?? []).filter(service =>
+    !NATIONAL_NETWORKS.includes(service) && !STREAMING_SERVICES.includes(service)
+  )
+
+  const toggle = (service: string) => {
+    const current = subscriptions ?? []
+    onChange({
+      subscriptions: current.includes(service) ? current.filter(existing => existing !== service) : [...current, service],
+      unwatchableGames
+    })
+  }
+
+  return (
+    <div>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className={checkboxClassName}
+          checked={subscriptions !== undefined}
+          // Most venues with cable have the national networks, so start from those
+          onChange={() => onChange({ subscriptions: subscriptions ? undefined : NATIONAL_NETWORKS, unwatchableGames })}
+        />
+        <span className="ml-2 text-sm text-gray-700">Only plan games we can show</span>
+      </label>
+
+      {subscriptions && (
+        <div className="mt-3 space-y-4 p-3 border border-gray-200 rounded-lg bg-gray-50">
+          <ServiceCheckboxes title="National networks" services={NATIONAL_NETWORKS} selected={subscriptions} onToggle={toggle} />
+          <ServiceCheckboxes title="Streaming services" services={STREAMING_SERVICES} selected={subscriptions} onToggle={toggle} />
+
+          <div>
+            <label htmlFor="regionalNetworks" className="block text-xs font-medium text-gray-500 uppercase mb-2">
+              Regional sports networks &amp; local stations
+            </label>
+            <input
+              id="regionalNetworks"
+              type="text"
+              defaultValue={regionalNetworks.join(', ')}
+              onBlur={(e) => onChange({
+                subscriptions: [
+                  ...subscriptions.filter(service => !regionalNetworks.includes(service)),
+                  ...parseNetworks(e.target.value)
+                ],
+                unwatchableGames
+              })}
+              placeholder="NBC Sports Bay Area, KJZZ"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="unwatchableGames" className="block text-xs font-medium text-gray-500 uppercase mb-2">
+              Games we can&apos;t show
+            </label>
+            <select
+              id="unwatchableGames"
+              value={handling}
+              onChange={(e) => onChange({ subscriptions, unwatchableGames: e.target.value as UnwatchableGameHandling })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm"
+            >
+              <option value="exclude">Leave them off the plan</option>
+              <option value="deprioritize">Plan them last</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { TV_ZONES } from '@/lib/domain'
+import type { TvDefinition, TvZone } from '@/lib/domain'
+import { MAX_TVS, TV_ZONE_LABELS, createTv } from '@/lib/tv-inventory'
+
+interface TvInventoryEditorProps {
+  tvs: TvDefinition[]
+  onChange: (tvs: TvDefinition[]) => void
+}
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+
+// Inputs are edited as a comma-separated list
+function parseInputs(value: string) {
+  return value.split(',').map(input => input.trim()).filter(Boolean)
+}
+
+export default function TvInventoryEditor({ tvs, onChange }: TvInventoryEditorProps) {
+  const updateTv = (index: number, changes: Partial<TvDefinition>) => {
+    onChange(tvs.map((tv, i) => i === index ? { ...tv, ...changes } : tv))
+  }
+
+  const addTv = () => {
+    // Ids stay unique when TVs in the middle have been removed
+    const nextNumber = Math.max(0, ...tvs.map(tv => parseInt(tv.id.replace('tv-', '')) || 0)) + 1
+    onChange([...tvs, { ...createTv(tvs.length), id: `tv-${nextNumber}` }])
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+            <tr>
+              <th className="px-2 py-2">#</th>
+              <th className="px-2 py-2">Name</th>
+              <th className="px-2 py-2">Zone</th>
+              <th className="px-2 py-2">Size (in)</th>
+              <th className="px-2 py-2">Prominence</th>
+              <th className="px-2 py-2">Sound</th>
+              <th className="px-2 py-2">Inputs &amp; services</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tvs.map((tv, index) => (
+              <tr key={tv.id} className="border-t border-gray-100">
+                <td className="px-2 py-1 text-gray-500">{index + 1}</td>
+                <td className="px-2 py-1 min-w-32">
+                  <input
+                    type="text"
+                    value={tv.name}
+                    onChange={(e) => updateTv(index, { name: e.target.value })}
+                    className={inputClassName}
+                    aria-label={`TV ${index + 1} name`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <select
+                    value={tv.zone}
+                    onChange={(e) => updateTv(index, { zone: e.target.value as TvZone })}
+                    className={inputClassName}
+                    aria-label={`TV ${index + 1} zone`}
+                  >
+                    {TV_ZONES.map(zone => (
+                      <option key={zone} value={zone}>{TV_ZONE_LABELS[zone]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-1 w-24">
+                  <input
+                    type="number"
+                    min="10"
+                    max="150"
+                    value={tv.sizeInches}
+                    onChange={(e) => updateTv(index, { sizeInches: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className={inputClassName}
+                    aria-label={`TV ${index + 1} size`}
+                  />
+                </td>
+                <td className="px-2 py-1 w-24">
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={tv.prominence}
+                    onChange={(e) => updateTv(index, { prominence: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)) })}
+                    className={inputClassName}
+                    aria-label={`TV ${index + 1} prominence`}
+                  />
+                </td>
+                <td className="px-2 py-1 text-center">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={tv.hasAudio}
+                    onChange={() => updateTv(index, { hasAudio: !tv.hasAudio })}
+                    aria-label={`TV ${index + 1} has sound`}
+                  />
+                </td>
+                <td className="px-2 py-1 min-w-48">
+                  <input
+                    type="text"
+                    defaultValue={tv.inputs.join(', ')}
+                    onBlur={(e) => updateTv(index, { inputs: parseInputs(e.target.value) })}
+                    placeholder="Cable, ESPN+, NBA League Pass"
+                    className={inputClassName}
+                    aria-label={`TV ${index + 1} inputs`}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    onClick={() => onChange(tvs.filter((_, i) => i !== index))}
+                    disabled={tvs.length === 1}
+                    className="text-sm text-gray-400 hover:text-red-600 disabled:opacity-40 disabled:hover:text-gray-400"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        onClick={addTv}
+        disabled={tvs.length >= MAX_TVS}
+        className="mt-3 px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        Add TV
+      </button>
+    </div>
+  )
+}
@@ -1,81 +1,16 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-
-interface UserPreferences {
-  sportsInterests: string[]
-  numberOfTvs: number
-  tvSetupDescription: string
-  favoriteNbaTeams: string[]
-  zipCode: string
-}
-
-const NBA_TEAMS = [
-  { value: 'ATL', label: 'Atlanta Hawks' },
-  { value: 'BOS', label: 'Boston Celtics' },
-  { value: 'BKN', label: 'Brooklyn Nets' },
-  { value: 'CHA', label: 'Charlotte Hornets' },
-  { value: 'CHI', label: 'Chicago Bulls' },
-  { value: 'CLE', label: 'Cleveland Cavaliers' },
-  { value: 'DAL', label: 'Dallas Mavericks' },
-  { value: 'DEN', label: 'Denver Nuggets' },
-  { value: 'DET', label: 'Detroit Pistons' },
-  { value: 'GSW', label: 'Golden State Warriors' },
-  { value: 'HOU', label: 'Houston Rockets' },
-  { value: 'IND', label: 'Indiana Pacers' },
-  { value: 'LAC', label: 'LA Clippers' },
-  { value: 'LAL', label: 'Los Angeles Lakers' },
-  { value: 'MEM', label: 'Memphis Grizzlies' },
-  { value: 'MIA', label: 'Miami Heat' },
-  { value: 'MIL', label: 'Milwaukee Bucks' },
-  { value: 'MIN', label: 'Minnesota Timberwolves' },
-  { value: 'NOP', label: 'New Orleans Pelicans' },
-  { value: 'NYK', label: 'New York Knicks' },
-  { value: 'OKC', label: 'Oklahoma City Thunder' },
-  { value: 'ORL', label: 'Orlando Magic' },
-  { value: 'PHI', label: 'Philadelphia 76ers' },
-  { value: 'PHX', label: 'Phoenix Suns' },
-  { value: 'POR', label: 'Portland Trail Blazers' },
-  { value: 'SAC', label: 'Sacramento Kings' },
-  { value: 'SAS', label: 'San Antonio Spurs' },
-  { value: 'TOR', label: 'Toronto Raptors' },
-  { value: 'UTA', label: 'Utah Jazz' },
-  { value: 'WAS', label: 'Washington Wizards' }
-]
+import type { UserPreferences as Preferences } from '@/lib/domain'
+import { NBA_TEAMS } from '@/lib/leagues/nba-teams'
+import { PREFERENCES_UPDATED_EVENT, getSelectedVenueId, loadPreferences, savePreferences } from '@/lib/preferences-client'
 
 interface UserPreferencesProps {
-  onPreferencesChange?: (preferences: UserPreferences) => void
-}
-
-// Helper functions for localStorage operations
-const STORAGE_KEY = 'sports-scheduler-user-preferences'
-
-const loadPreferencesFromStorage = (): UserPreferences | null => {
-  if (typeof window === 'undefined') return null
-  
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored) {
-      return JSON.parse(stored)
-    }
-  } catch (error) {
-    console.error('Failed to load preferences from localStorage:', error)
-  }
-  return null
-}
-
-const savePreferencesToStorage = (preferences: UserPreferences): void => {
-  if (typeof window === 'undefined') return
-  
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
-  } catch (error) {
-    console.error('Failed to save preferences to localStorage:', error)
-  }
+  onPreferencesChange?: (preferences: Preferences) => void
 }
 
 export default function UserPreferences({ onPreferencesChange }: UserPreferencesProps) {
-  const [preferences, setPreferences] = useState<UserPreferences>({
+  const [preferences, setPreferences] = useState<Preferences>({
     sportsInterests: [],
     numberOfTvs: 1,
     tvSetupDescription: '',
@@ -91,19 +26,24 @@ export default function UserPreferences({ onPreferencesChange }: UserPreferences
     onPreferencesChangeRef.current = onPreferencesChange
   }, [onPreferencesChange])
 
-  // Load preferences from localStorage on component mount
+  // Load the venue's preferences from the server on component mount
   useEffect(() => {
-    const savedPreferences = loadPreferencesFromStorage()
-    if (savedPreferences) {
-      setPreferences(savedPreferences)
-      onPreferencesChangeRef.current?.(savedPreferences)
-    }
+    loadPreferences(getSelectedVenueId())
+      .then(savedPreferences => {
+        if (savedPreferences) {
+          setPreferences(savedPreferences)
+          onPreferencesChangeRef.current?.(savedPreferences)
+        }
+      })
+      .catch(error => console.error('Failed to load preferences:', error))
   }, []) // Empty dependency array - only run on mount
 
-  const handlePreferenceChange = (newPreferences: Partial<UserPreferences>) => {
+  const handlePreferenceChange = (newPreferences: Partial<Preferences>) => {
     const updated = { ...preferences, ...newPreferences }
     setPreferences(updated)
-    savePreferencesToStorage(updated)
+    savePreferences(getSelectedVenueId(), updated)
+      .then(() => window.dispatchEvent(new CustomEvent(PREFERENCES_UPDATED_EVENT)))
+      .catch(error => console.error('Failed to save preferences:', error))
     onPreferencesChangeRef.current?.(updated)
   }
 
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Venue } from '@/lib/domain'
+
+interface VenueSelectorProps {
+  venueId: string
+  onSelect: (venueId: string) => void
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-sm'
+
+export default function VenueSelector({ venueId, onSelect }: VenueSelectorProps) {
+  const [venues, setVenues] = useState<Array<Pick<Venue, 'id' | 'name'>>>([])
+  const [newVenueName, setNewVenueName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadVenues = async () => {
+      try {
+        const response = await fetch('/api/venues')
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load venues')
+        }
+        setVenues(result.venues)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load venues')
+      }
+    }
+
+    loadVenues()
+  }, [])
+
+  const addVenue = async () => {
+    try {
+      const response = await fetch('/api/venues', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newVenueName })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to add venue')
+      }
+      setVenues(current => [...current, result])
+      setNewVenueName('')
+      setError(null)
+      onSelect(result.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add venue')
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={venueId}
+          onChange={(e) => onSelect(e.target.value)}
+          className={inputClassName}
+          aria-label="Venue"
+        >
+          {/* The stored venue may not be listed yet while the list loads */}
+          {!venues.some(venue => venue.id === venueId) && <option value={venueId}>{venueId}</option>}
+          {venues.map(venue => (
+            <option key={venue.id} value={venue.id}>{venue.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={newVenueName}
+          onChange={(e) => setNewVenueName(e.target.value)}
+          placeholder="New venue name"
+          className={inputClassName}
+        />
+        <button
+          onClick={addVenue}
+          disabled={!newVenueName.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-100 disabled:text-gray-400 text-sm font-medium"
+        >
+          Add venue
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
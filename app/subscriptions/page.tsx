@@ -0,0 +1,22 @@
+import SubscriptionManager from '../components/SubscriptionManager'
+
+interface SubscriptionsPageProps {
+  searchParams: Promise<{ token?: string; action?: string }>
+}
+
+// Where the links in subscription emails and texts land: ?token=...&action=confirm|unsubscribe
+export default async function SubscriptionsPage({ searchParams }: SubscriptionsPageProps) {
+  const { token = '', action } = await searchParams
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Sports schedule emails and texts</h1>
+        <SubscriptionManager
+          token={token}
+          action={action === 'confirm' || action === 'unsubscribe' ? action : null}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+// Which of a game's feeds a venue can actually see from its zip code's media market. The teams'
+// own TV feeds only air in their home market. National TV is blacked out in a team's market when
+// that team's local feed carries the game, and NBA League Pass is blacked out for local teams.
+// Without a zip code nothing is blacked out. Runs on the client and the server.
+
+import { Broadcaster, Broadcasters, Game, Team } from './domain'
+import { findMarketByTeam, isInMarket } from './data/media-markets'
+import { normalizeBroadcasterName } from './data/channel-lineups'
+
+export type FeedType = 'national' | 'home' | 'away'
+
+export interface Feed {
+  broadcaster: Broadcaster
+  type: FeedType
+  streaming: boolean
+}
+
+export interface BlackedOutFeed extends Feed {
+  // "NBC Sports Bay Area only airs in the San Francisco-Oakland-San Jose market"
+  reason: string
+}
+
+export interface FeedAvailability {
+  visible: Feed[]
+  blackedOut: BlackedOutFeed[]
+}
+
+// Streaming services that only carry out-of-market games
+const OUT_OF_MARKET_SERVICES = ['nbaleaguepass']
+
+// The TV and streaming feeds carrying a game, national first, skipping placeholders and radio
+export function getGameFeeds(broadcasters: Broadcasters): Feed[] {
+  const feeds: Feed[] = [
+    ...broadcasters.nationalBroadcasters.map(broadcaster => ({ broadcaster, type: 'national' as const, streaming: false })),
+    ...broadcasters.nationalOttBroadcasters.map(broadcaster => ({ broadcaster, type: 'national' as const, streaming: true })),
+    ...broadcasters.homeTvBroadcasters.map(broadcaster => ({ broadcaster, type: 'home' as const, streaming: false })),
+    ...broadcasters.homeOttBroadcasters.map(broadcaster => ({ broadcaster, type: 'home' as const, streaming: true })),
+    ...broadcasters.awayTvBroadcasters.map(broadcaster => ({ broadcaster, type: 'away' as const, streaming: false })),
+    ...broadcasters.awayOttBroadcasters.map(broadcaster => ({ broadcaster, type: 'away' as const, streaming: true }))
+  ]
+  return feeds.filter(feed => feed.broadcaster.broadcasterDisplay !== 'TBD' && feed.broadcaster.broadcasterDisplay)
+}
+
+function getMarketName(team: Team) {
+  return findMarketByTeam(team.teamTricode)?.name ?? team.teamCity
+}
+
+function isLocalTeam(team: Team, zipCode: string) {
+  const market = findMarketByTeam(team.teamTricode)
+  return market !== null && isInMarket(market, zipCode)
+}
+
+export function getFeedAvailability(game: Pick<Game, 'broadcasters' | 'homeTeam' | 'awayTeam'>, zipCode: string): FeedAvailability {
+  const feeds = getGameFeeds(game.broadcasters)
+  if (!/^\d{5}$/.test(zipCode.trim())) {
+    return { visible: feeds, blackedOut: [] }
+  }
+
+  const teams: Record<Exclude<FeedType, 'national'>, Team> = { home: game.homeTeam, away: game.awayTeam }
+  const localTeams = [game.homeTeam, game.awayTeam].filter(team => isLocalTeam(team, zipCode))
+  // A local team's own TV feed takes over from the national one in its market
+  const localFeed = feeds.find(feed =>
+    feed.type !== 'national' && !feed.streaming && localTeams.includes(teams[feed.type])
+  )
+
+  const getBlackoutReason = (feed: Feed) => {
+    const name = feed.broadcaster.broadcasterDisplay
+    if (feed.type !== 'national') {
+      const team = teams[feed.type]
+      return localTeams.includes(team) ? null : `${name} only airs in the ${getMarketName(team)} market`
+    }
+    if (localTeams.length === 0) return null
+    const market = getMarketName(localTeams[0])
+    if (!feed.streaming && localFeed) {
+      return `${name} is blacked out in the ${market} market, where ${localFeed.broadcaster.broadcasterDisplay} carries the game`
+    }
+    if (feed.streaming && OUT_OF_MARKET_SERVICES.includes(normalizeBroadcasterName(name))) {
+      return `${name} is blacked out for ${localTeams.map(team => team.teamTricode).join(' and ')} games in the ${market} market`
+    }
+    return null
+  }
+
+  const availability: FeedAvailability = { visible: [], blackedOut: [] }
+  feeds.forEach(feed => {
+    const reason = getBlackoutReason(feed)
+    if (reason) {
+      availability.blackedOut.push({ ...feed, reason })
+    } else {
+      availability.visible.push(feed)
+    }
+  })
+  return availability
+}
@@ -0,0 +1,51 @@
+// Resolves the channel to tune for a broadcaster: the venue's overrides first (by broadcaster id,
+// then by name), then the chosen provider's bundled lineup. Runs on the client and the server.
+
+import { Broadcaster, Broadcasters, ChannelLineup, UserPreferences, getGameBroadcasters } from './domain'
+import { findChannelProvider, normalizeBroadcasterName } from './data/channel-lineups'
+
+export interface TunedBroadcaster {
+  name: string
+  channel: string | null
+}
+
+export function getChannelLineup(preferences?: Pick<UserPreferences, 'channelProvider' | 'channelOverrides'> | null): ChannelLineup {
+  return {
+    providerId: preferences?.channelProvider ?? null,
+    overrides: preferences?.channelOverrides ?? []
+  }
+}
+
+export function findChannel(broadcaster: Pick<Broadcaster, 'broadcasterId' | 'broadcasterDisplay'>, lineup: ChannelLineup) {
+  const name = normalizeBroadcasterName(broadcaster.broadcasterDisplay)
+  const override =
+    lineup.overrides.find(entry => entry.broadcasterId !== undefined && entry.broadcasterId === broadcaster.broadcasterId) ??
+    lineup.overrides.find(entry => normalizeBroadcasterName(entry.broadcasterDisplay) === name)
+  if (override?.channel) return override.channel
+
+  return findChannelProvider(lineup.providerId)?.channels[name] ?? null
+}
+
+export function tuneBroadcaster(broadcaster: Broadcaster, lineup: ChannelLineup): TunedBroadcaster {
+  return { name: broadcaster.broadcasterDisplay, channel: findChannel(broadcaster, lineup) }
+}
+
+// The game's broadcasters in getBroadcasterNames order, each with its channel when known
+export function getTunedBroadcasters(broadcasters: Broadcasters, lineup: ChannelLineup): TunedBroadcaster[] {
+  return getGameBroadcasters(broadcasters).map(broadcaster => tuneBroadcaster(broadcaster, lineup))
+}
+
+// What to put the game on: the first broadcaster with a known channel, else the first listed
+export function getBroadcasterToTune(broadcasters: Broadcasters, lineup: ChannelLineup): TunedBroadcaster | null {
+  const tuned = getTunedBroadcasters(broadcasters, lineup)
+  return tuned.find(broadcaster => broadcaster.channel) ?? tuned[0] ?? null
+}
+
+// "ESPN · ch 206", or just "ESPN" without a known channel
+export function formatTunedBroadcaster(broadcaster: TunedBroadcaster) {
+  return broadcaster.channel ? `${broadcaster.name} · ch ${broadcaster.channel}` : broadcaster.name
+}
+
+export function getProviderName(lineup: ChannelLineup) {
+  return findChannelProvider(lineup.providerId)?.name ?? null
+}
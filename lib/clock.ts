@@ -0,0 +1,33 @@
+// Server clock. SCHEDULE_FREEZE_DATE pins "now" so fixture and snapshot sources open on a
+// known slate of games and routes that stamp dates produce the same output on every run.
+
+// NBA schedule dates (gameDate, gameDateEst) are Eastern Time calendar days
+const SCHEDULE_TIME_ZONE = 'America/New_York'
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function getFrozenTime(): Date | null {
+  const value = process.env.SCHEDULE_FREEZE_DATE?.trim()
+  if (!value) return null
+
+  // A bare date freezes to midday Eastern so it is the same calendar day in every US zone
+  const frozen = new Date(DATE_ONLY_PATTERN.test(value) ? `${value}T17:00:00Z` : value)
+  if (isNaN(frozen.getTime())) {
+    console.error(`Ignoring invalid SCHEDULE_FREEZE_DATE "${value}"`)
+    return null
+  }
+  return frozen
+}
+
+export function isClockFrozen() {
+  return getFrozenTime() !== null
+}
+
+export function now(): Date {
+  return getFrozenTime() ?? new Date()
+}
+
+// Today's date as YYYY-MM-DD - in Eastern Time, the schedule's own calendar, unless a venue's zone is given
+export function todayKey(timeZone = SCHEDULE_TIME_ZONE) {
+  return now().toLocaleDateString('en-CA', { timeZone })
+}
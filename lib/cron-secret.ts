@@ -0,0 +1,13 @@
+// CRON_SECRET guards the endpoints that aren't for the public: the cron run, and subscribers'
+// addresses and deletion under /api/subscriptions. Requests send "Authorization: Bearer <CRON_SECRET>".
+
+// Whether the request carries the secret; without CRON_SECRET set, none does
+export function hasCronSecret(request: Request) {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+// Open when CRON_SECRET isn't set, e.g. in local development
+export function isCronAuthorized(request: Request) {
+  return !process.env.CRON_SECRET || hasCronSecret(request)
+}
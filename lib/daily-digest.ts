@@ -0,0 +1,119 @@
+// "Tonight's TV plan": one date of a viewing plan as a time-ordered run sheet for whoever opens
+// the venue - which TVs to turn to which game, when, and on what channel. Rendered as an email by
+// generateDigestEmailHTML (lib/email-templates.ts) and as text messages by formatDigestSms.
+
+import { ChannelLineup, Game, OptimizedGame, ViewingPlan } from './domain'
+import { TunedBroadcaster, formatTunedBroadcaster, getBroadcasterToTune } from './channel-lineup'
+import { splitIntoSmsSegments } from './sms'
+import { getTimeZoneAbbreviation } from './timezone'
+
+// All the run sheet needs of a planned game
+export type PlannedGame = Game & Pick<OptimizedGame, 'tvAssignment' | 'assignedDate'>
+
+export interface RunSheetEntry {
+  game: PlannedGame
+  // Every TV the game is on, in order
+  tvNumbers: number[]
+  // TVs already showing an earlier game that day, which need to be changed over
+  switchTvNumbers: number[]
+  // What to tune to; see getBroadcasterToTune
+  broadcaster: TunedBroadcaster | null
+}
+
+export interface DailyDigest {
+  // YYYY-MM-DD
+  date: string
+  entries: RunSheetEntry[]
+  tvs?: Array<{ tvNumber: number; name: string }>
+}
+
+// A plan's day is the one it was assigned to, else the game's Eastern date, as in the calendar
+export function getPlanDate(game: PlannedGame) {
+  return (game.assignedDate || game.gameDateEst).slice(0, 10)
+}
+
+// One entry per TV a game is on, from a plan's games by TV number
+export function getPlannedGames(tvSchedule: Record<number, Game[]>): PlannedGame[] {
+  return Object.entries(tvSchedule).flatMap(([tvNumber, games]) => games.map(game => ({ ...game, tvAssignment: Number(tvNumber) })))
+}
+
+export function buildDailyDigest(
+  plan: { optimizedGames: PlannedGame[]; tvs?: ViewingPlan['tvs'] },
+  date: string,
+  channelLineup: ChannelLineup
+): DailyDigest {
+  const byGame = new Map<string, PlannedGame[]>()
+  plan.optimizedGames
+    .filter(game => getPlanDate(game) === date)
+    .forEach(game => byGame.set(game.gameId, [...byGame.get(game.gameId) ?? [], game]))
+
+  const usedTvs = new Set<number>()
+  const entries = Array.from(byGame.values())
+    .map(games => ({ game: games[0], tvNumbers: games.map(game => game.tvAssignment).sort((a, b) => a - b) }))
+    .sort((a, b) =>
+      new Date(a.game.gameDateTimeUTC).getTime() - new Date(b.game.gameDateTimeUTC).getTime() ||
+      a.tvNumbers[0] - b.tvNumbers[0]
+    )
+    .map(({ game, tvNumbers }) => {
+      const entry: RunSheetEntry = {
+        game,
+        tvNumbers,
+        switchTvNumbers: tvNumbers.filter(tvNumber => usedTvs.has(tvNumber)),
+        broadcaster: getBroadcasterToTune(game.broadcasters, channelLineup)
+      }
+      tvNumbers.forEach(tvNumber => usedTvs.add(tvNumber))
+      return entry
+    })
+
+  return { date, entries, tvs: plan.tvs }
+}
+
+// "Tue, Jan 14"
+export function formatDigestDate(date: string) {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+// "5:00" and "7:30" - the run sheet is for one evening, so no am/pm; "TBD" until the league sets a time
+export function formatRunSheetTime(game: Game, timeZone: string) {
+  if (/\bTBD\b/i.test(game.gameStatusText)) return 'TBD'
+  const start = new Date(game.gameDateTimeUTC)
+  if (isNaN(start.getTime())) return game.gameStatusText
+  return start.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' }).replace(/\s?[AP]M$/i, '')
+}
+
+function formatTvNumbers(tvNumbers: number[]) {
+  return tvNumbers.map(tvNumber => `TV${tvNumber}`).join('+')
+}
+
+// "5:00 TV1+TV2 → BOS@NYK on ESPN ch 206", "7:30 switch TV2 → LAL@GSW". TVs joining a game that
+// weren't showing anything yet are listed before the ones being switched over.
+export function formatRunSheetLine(entry: RunSheetEntry, timeZone: string, arrow = '→') {
+  const freshTvs = entry.tvNumbers.filter(tvNumber => !entry.switchTvNumbers.includes(tvNumber))
+  const tvs = [
+    freshTvs.length > 0 ? formatTvNumbers(freshTvs) : '',
+    entry.switchTvNumbers.length > 0 ? `switch ${formatTvNumbers(entry.switchTvNumbers)}` : ''
+  ].filter(Boolean).join(' ')
+  const matchup = `${entry.game.awayTeam.teamTricode}@${entry.game.homeTeam.teamTricode}`
+  const channel = entry.broadcaster ? ` on ${formatTunedBroadcaster(entry.broadcaster).replace(' · ', ' ')}` : ''
+  return `${formatRunSheetTime(entry.game, timeZone)} ${tvs} ${arrow} ${matchup}${channel}`
+}
+
+// The heading and one line per entry, with "->" so the text stays in the GSM-7 character set
+export function formatDigestTextLines(digest: DailyDigest, timeZone: string) {
+  return [
+    formatDigestHeading(digest, timeZone),
+    ...(digest.entries.length > 0
+      ? digest.entries.map(entry => formatRunSheetLine(entry, timeZone, '->'))
+      : ['No games on the plan.'])
+  ]
+}
+
+export function formatDigestHeading(digest: DailyDigest, timeZone: string) {
+  const zone = getTimeZoneAbbreviation(timeZone, new Date(`${digest.date}T12:00:00Z`))
+  return `TV plan ${formatDigestDate(digest.date)} (${zone})`
+}
+
+// The digest as text messages of at most 160 characters each; see splitIntoSmsSegments
+export function formatDigestSms(digest: DailyDigest, timeZone: string): string[] {
+  return splitIntoSmsSegments(formatDigestTextLines(digest, timeZone))
+}
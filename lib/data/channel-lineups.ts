@@ -0,0 +1,54 @@
+// Channel numbers for national networks on providers whose lineup is the same everywhere.
+// Regional sports networks and local broadcast stations (ABC) differ by market, so venues add
+// those as overrides. Keys are broadcaster display names normalized by normalizeBroadcasterName.
+
+export interface ChannelProvider {
+  id: string
+  name: string
+  channels: Record<string, string>
+}
+
+export const CHANNEL_PROVIDERS: ChannelProvider[] = [
+  {
+    id: 'directv',
+    name: 'DIRECTV',
+    channels: {
+      espn: '206',
+      espnews: '207',
+      espnu: '208',
+      espn2: '209',
+      nbatv: '216',
+      fs1: '219',
+      cbssportsnetwork: '221',
+      tnt: '245',
+      trutv: '246',
+      tbs: '247',
+      espndeportes: '466'
+    }
+  },
+  {
+    id: 'dish',
+    name: 'DISH',
+    channels: {
+      tnt: '138',
+      tbs: '139',
+      espn: '140',
+      espnu: '141',
+      espnews: '142',
+      espn2: '143',
+      fs1: '150',
+      nbatv: '156',
+      cbssportsnetwork: '158',
+      trutv: '242'
+    }
+  }
+]
+
+// "NBA TV" and "nba tv" both become "nbatv"
+export function normalizeBroadcasterName(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function findChannelProvider(providerId: string | null | undefined) {
+  return CHANNEL_PROVIDERS.find(provider => provider.id === providerId) ?? null
+}
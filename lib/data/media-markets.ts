@@ -0,0 +1,60 @@
+// Home TV market for every NBA team: the arena's location and the three-digit zip prefixes of
+// the surrounding designated market area. Toronto's market has no US zip codes, so it only
+// counts by distance. Shared markets (New York, Los Angeles) list the same prefixes twice.
+
+export interface MediaMarket {
+  teamTricode: string
+  name: string
+  latitude: number
+  longitude: number
+  // Inclusive ranges of three-digit zip prefixes
+  zipPrefixes: Array<[string, string]>
+}
+
+export const MEDIA_MARKETS: MediaMarket[] = [
+  { teamTricode: 'ATL', name: 'Atlanta', latitude: 33.7573, longitude: -84.3963, zipPrefixes: [['300', '303'], ['305', '305']] },
+  { teamTricode: 'BOS', name: 'Boston', latitude: 42.3662, longitude: -71.0621, zipPrefixes: [['010', '027'], ['030', '038'], ['039', '049'], ['050', '059']] },
+  { teamTricode: 'BKN', name: 'New York', latitude: 40.6826, longitude: -73.9754, zipPrefixes: [['100', '119'], ['124', '127'], ['068', '069'], ['070', '079']] },
+  { teamTricode: 'CHA', name: 'Charlotte', latitude: 35.2251, longitude: -80.8392, zipPrefixes: [['280', '282'], ['286', '286'], ['297', '297']] },
+  { teamTricode: 'CHI', name: 'Chicago', latitude: 41.8807, longitude: -87.6742, zipPrefixes: [['600', '609'], ['463', '464']] },
+  { teamTricode: 'CLE', name: 'Cleveland', latitude: 41.4965, longitude: -81.6882, zipPrefixes: [['440', '449']] },
+  { teamTricode: 'DAL', name: 'Dallas-Fort Worth', latitude: 32.7905, longitude: -96.8103, zipPrefixes: [['750', '754'], ['760', '762']] },
+  { teamTricode: 'DEN', name: 'Denver', latitude: 39.7487, longitude: -105.0077, zipPrefixes: [['800', '816']] },
+  { teamTricode: 'DET', name: 'Detroit', latitude: 42.341, longitude: -83.055, zipPrefixes: [['480', '485'], ['492', '492']] },
+  { teamTricode: 'GSW', name: 'San Francisco-Oakland-San Jose', latitude: 37.768, longitude: -122.3877, zipPrefixes: [['940', '941'], ['943', '951'], ['954', '954']] },
+  { teamTricode: 'HOU', name: 'Houston', latitude: 29.7508, longitude: -95.3621, zipPrefixes: [['770', '775']] },
+  { teamTricode: 'IND', name: 'Indianapolis', latitude: 39.764, longitude: -86.1555, zipPrefixes: [['460', '462'], ['473', '474']] },
+  { teamTricode: 'LAC', name: 'Los Angeles', latitude: 33.945, longitude: -118.341, zipPrefixes: [['900', '918'], ['923', '925'], ['930', '930'], ['935', '935']] },
+  { teamTricode: 'LAL', name: 'Los Angeles', latitude: 34.043, longitude: -118.2673, zipPrefixes: [['900', '918'], ['923', '925'], ['930', '930'], ['935', '935']] },
+  { teamTricode: 'MEM', name: 'Memphis', latitude: 35.1382, longitude: -90.0506, zipPrefixes: [['380', '383'], ['386', '386']] },
+  { teamTricode: 'MIA', name: 'Miami-Fort Lauderdale', latitude: 25.7814, longitude: -80.187, zipPrefixes: [['330', '334'], ['349', '349']] },
+  { teamTricode: 'MIL', name: 'Milwaukee', latitude: 43.0451, longitude: -87.9172, zipPrefixes: [['530', '532'], ['534', '534']] },
+  { teamTricode: 'MIN', name: 'Minneapolis-St. Paul', latitude: 44.9795, longitude: -93.2761, zipPrefixes: [['550', '556'], ['560', '561']] },
+  { teamTricode: 'NOP', name: 'New Orleans', latitude: 29.949, longitude: -90.0821, zipPrefixes: [['700', '701'], ['703', '704']] },
+  { teamTricode: 'NYK', name: 'New York', latitude: 40.7505, longitude: -73.9934, zipPrefixes: [['100', '119'], ['124', '127'], ['068', '069'], ['070', '079']] },
+  { teamTricode: 'OKC', name: 'Oklahoma City', latitude: 35.4634, longitude: -97.5151, zipPrefixes: [['730', '731'], ['734', '736']] },
+  { teamTricode: 'ORL', name: 'Orlando', latitude: 28.5392, longitude: -81.3839, zipPrefixes: [['327', '329'], ['347', '347']] },
+  { teamTricode: 'PHI', name: 'Philadelphia', latitude: 39.9012, longitude: -75.172, zipPrefixes: [['080', '087'], ['189', '196'], ['197', '199']] },
+  { teamTricode: 'PHX', name: 'Phoenix', latitude: 33.4457, longitude: -112.0712, zipPrefixes: [['850', '853'], ['855', '855']] },
+  { teamTricode: 'POR', name: 'Portland', latitude: 45.5316, longitude: -122.6668, zipPrefixes: [['970', '973'], ['986', '986']] },
+  { teamTricode: 'SAC', name: 'Sacramento', latitude: 38.5802, longitude: -121.4997, zipPrefixes: [['942', '942'], ['952', '953'], ['956', '959']] },
+  { teamTricode: 'SAS', name: 'San Antonio', latitude: 29.427, longitude: -98.4375, zipPrefixes: [['780', '782'], ['788', '788']] },
+  { teamTricode: 'TOR', name: 'Toronto', latitude: 43.6435, longitude: -79.3791, zipPrefixes: [] },
+  { teamTricode: 'UTA', name: 'Salt Lake City', latitude: 40.7683, longitude: -111.9011, zipPrefixes: [['840', '847']] },
+  { teamTricode: 'WAS', name: 'Washington', latitude: 38.8981, longitude: -77.0209, zipPrefixes: [['200', '209'], ['220', '223']] }
+]
+
+export function isInMarket(market: MediaMarket, zipCode: string) {
+  const prefix = zipCode.trim().slice(0, 3)
+  if (!/^\d{3}$/.test(prefix)) return false
+  return market.zipPrefixes.some(([from, to]) => prefix >= from && prefix <= to)
+}
+
+export function findMarketByTeam(teamTricode: string) {
+  return MEDIA_MARKETS.find(market => market.teamTricode === teamTricode) ?? null
+}
+
+// Markets whose territory includes the zip code - more than one for shared markets
+export function findMarketsForZip(zipCode: string) {
+  return MEDIA_MARKETS.filter(market => isInMarket(market, zipCode))
+}
@@ -0,0 +1,145 @@
+// Three-digit zip prefix ranges with their state and time zone. Where a state spans two zones
+// the prefixes are split by the area they serve; a handful of border areas will be off by one zone.
+
+export interface ZipRegion {
+  // Inclusive range of three-digit zip prefixes
+  from: string
+  to: string
+  state: string
+  timeZone: string
+}
+
+export const ZIP_REGIONS: ZipRegion[] = [
+  { from: '005', to: '005', state: 'NY', timeZone: 'America/New_York' },
+  { from: '006', to: '009', state: 'PR', timeZone: 'America/Puerto_Rico' },
+  { from: '010', to: '027', state: 'MA', timeZone: 'America/New_York' },
+  { from: '028', to: '029', state: 'RI', timeZone: 'America/New_York' },
+  { from: '030', to: '038', state: 'NH', timeZone: 'America/New_York' },
+  { from: '039', to: '049', state: 'ME', timeZone: 'America/New_York' },
+  { from: '050', to: '059', state: 'VT', timeZone: 'America/New_York' },
+  { from: '060', to: '069', state: 'CT', timeZone: 'America/New_York' },
+  { from: '070', to: '089', state: 'NJ', timeZone: 'America/New_York' },
+  { from: '100', to: '149', state: 'NY', timeZone: 'America/New_York' },
+  { from: '150', to: '196', state: 'PA', timeZone: 'America/New_York' },
+  { from: '197', to: '199', state: 'DE', timeZone: 'America/New_York' },
+  { from: '200', to: '205', state: 'DC', timeZone: 'America/New_York' },
+  { from: '206', to: '219', state: 'MD', timeZone: 'America/New_York' },
+  { from: '220', to: '246', state: 'VA', timeZone: 'America/New_York' },
+  { from: '247', to: '268', state: 'WV', timeZone: 'America/New_York' },
+  { from: '270', to: '289', state: 'NC', timeZone: 'America/New_York' },
+  { from: '290', to: '299', state: 'SC', timeZone: 'America/New_York' },
+  { from: '300', to: '319', state: 'GA', timeZone: 'America/New_York' },
+  { from: '320', to: '323', state: 'FL', timeZone: 'America/New_York' },
+  { from: '324', to: '325', state: 'FL', timeZone: 'America/Chicago' },
+  { from: '326', to: '349', state: 'FL', timeZone: 'America/New_York' },
+  { from: '350', to: '369', state: 'AL', timeZone: 'America/Chicago' },
+  { from: '370', to: '372', state: 'TN', timeZone: 'America/Chicago' },
+  { from: '373', to: '379', state: 'TN', timeZone: 'America/New_York' },
+  { from: '380', to: '385', state: 'TN', timeZone: 'America/Chicago' },
+  { from: '386', to: '397', state: 'MS', timeZone: 'America/Chicago' },
+  { from: '398', to: '399', state: 'GA', timeZone: 'America/New_York' },
+  { from: '400', to: '419', state: 'KY', timeZone: 'America/New_York' },
+  { from: '420', to: '424', state: 'KY', timeZone: 'America/Chicago' },
+  { from: '425', to: '427', state: 'KY', timeZone: 'America/New_York' },
+  { from: '430', to: '459', state: 'OH', timeZone: 'America/New_York' },
+  { from: '460', to: '462', state: 'IN', timeZone: 'America/New_York' },
+  { from: '463', to: '464', state: 'IN', timeZone: 'America/Chicago' },
+  { from: '465', to: '475', state: 'IN', timeZone: 'America/New_York' },
+  { from: '476', to: '477', state: 'IN', timeZone: 'America/Chicago' },
+  { from: '478', to: '479', state: 'IN', timeZone: 'America/New_York' },
+  { from: '480', to: '499', state: 'MI', timeZone: 'America/Detroit' },
+  { from: '500', to: '528', state: 'IA', timeZone: 'America/Chicago' },
+  { from: '530', to: '549', state: 'WI', timeZone: 'America/Chicago' },
+  { from: '550', to: '567', state: 'MN', timeZone: 'America/Chicago' },
+  { from: '570', to: '576', state: 'SD', timeZone: 'America/Chicago' },
+  { from: '577', to: '577', state: 'SD', timeZone: 'America/Denver' },
+  { from: '580', to: '585', state: 'ND', timeZone: 'America/Chicago' },
+  { from: '586', to: '586', state: 'ND', timeZone: 'America/Denver' },
+  { from: '587', to: '588', state: 'ND', timeZone: 'America/Chicago' },
+  { from: '590', to: '599', state: 'MT', timeZone: 'America/Denver' },
+  { from: '600', to: '629', state: 'IL', timeZone: 'America/Chicago' },
+  { from: '630', to: '658', state: 'MO', timeZone: 'America/Chicago' },
+  { from: '660', to: '679', state: 'KS', timeZone: 'America/Chicago' },
+  { from: '680', to: '692', state: 'NE', timeZone: 'America/Chicago' },
+  { from: '693', to: '693', state: 'NE', timeZone: 'America/Denver' },
+  { from: '700', to: '714', state: 'LA', timeZone: 'America/Chicago' },
+  { from: '716', to: '729', state: 'AR', timeZone: 'America/Chicago' },
+  { from: '730', to: '749', state: 'OK', timeZone: 'America/Chicago' },
+  { from: '750', to: '797', state: 'TX', timeZone: 'America/Chicago' },
+  { from: '798', to: '799', state: 'TX', timeZone: 'America/Denver' },
+  { from: '800', to: '816', state: 'CO', timeZone: 'America/Denver' },
+  { from: '820', to: '831', state: 'WY', timeZone: 'America/Denver' },
+  { from: '832', to: '834', state: 'ID', timeZone: 'America/Boise' },
+  { from: '835', to: '838', state: 'ID', timeZone: 'America/Los_Angeles' },
+  { from: '840', to: '847', state: 'UT', timeZone: 'America/Denver' },
+  { from: '850', to: '865', state: 'AZ', timeZone: 'America/Phoenix' },
+  { from: '870', to: '884', state: 'NM', timeZone: 'America/Denver' },
+  { from: '889', to: '898', state: 'NV', timeZone: 'America/Los_Angeles' },
+  { from: '900', to: '961', state: 'CA', timeZone: 'America/Los_Angeles' },
+  { from: '967', to: '968', state: 'HI', timeZone: 'Pacific/Honolulu' },
+  { from: '970', to: '979', state: 'OR', timeZone: 'America/Los_Angeles' },
+  { from: '980', to: '994', state: 'WA', timeZone: 'America/Los_Angeles' },
+  { from: '995', to: '999', state: 'AK', timeZone: 'America/Anchorage' }
+]
+
+// Rough geographic center of each state, for distances when nothing more precise is known
+export const STATE_CENTROIDS: Record<string, { latitude: number; longitude: number }> = {
+  AL: { latitude: 32.8, longitude: -86.8 },
+  AK: { latitude: 61.4, longitude: -150.0 },
+  AZ: { latitude: 33.7, longitude: -111.4 },
+  AR: { latitude: 34.9, longitude: -92.4 },
+  CA: { latitude: 36.8, longitude: -119.4 },
+  CO: { latitude: 39.0, longitude: -105.5 },
+  CT: { latitude: 41.6, longitude: -72.7 },
+  DE: { latitude: 39.0, longitude: -75.5 },
+  DC: { latitude: 38.9, longitude: -77.0 },
+  FL: { latitude: 28.1, longitude: -81.6 },
+  GA: { latitude: 32.9, longitude: -83.4 },
+  HI: { latitude: 21.3, longitude: -157.8 },
+  ID: { latitude: 44.2, longitude: -114.5 },
+  IL: { latitude: 40.3, longitude: -89.0 },
+  IN: { latitude: 39.8, longitude: -86.3 },
+  IA: { latitude: 42.0, longitude: -93.2 },
+  KS: { latitude: 38.5, longitude: -98.4 },
+  KY: { latitude: 37.7, longitude: -84.7 },
+  LA: { latitude: 31.2, longitude: -91.9 },
+  ME: { latitude: 44.7, longitude: -69.4 },
+  MD: { latitude: 39.1, longitude: -76.8 },
+  MA: { latitude: 42.2, longitude: -71.5 },
+  MI: { latitude: 43.3, longitude: -84.5 },
+  MN: { latitude: 45.7, longitude: -93.9 },
+  MS: { latitude: 32.7, longitude: -89.7 },
+  MO: { latitude: 38.5, longitude: -92.3 },
+  MT: { latitude: 46.9, longitude: -110.5 },
+  NE: { latitude: 41.1, longitude: -98.3 },
+  NV: { latitude: 38.3, longitude: -117.1 },
+  NH: { latitude: 43.5, longitude: -71.6 },
+  NJ: { latitude: 40.3, longitude: -74.5 },
+  NM: { latitude: 34.8, longitude: -106.2 },
+  NY: { latitude: 42.2, longitude: -74.9 },
+  NC: { latitude: 35.6, longitude: -79.8 },
+  ND: { latitude: 47.5, longitude: -99.8 },
+  OH: { latitude: 40.4, longitude: -82.8 },
+  OK: { latitude: 35.6, longitude: -96.9 },
+  OR: { latitude: 44.6, longitude: -122.1 },
+  PA: { latitude: 40.6, longitude: -77.2 },
+  PR: { latitude: 18.2, longitude: -66.5 },
+  RI: { latitude: 41.7, longitude: -71.5 },
+  SC: { latitude: 33.9, longitude: -80.9 },
+  SD: { latitude: 44.3, longitude: -99.4 },
+  TN: { latitude: 35.7, longitude: -86.7 },
+  TX: { latitude: 31.1, longitude: -97.6 },
+  UT: { latitude: 40.2, longitude: -111.9 },
+  VT: { latitude: 44.0, longitude: -72.7 },
+  VA: { latitude: 37.8, longitude: -78.2 },
+  WA: { latitude: 47.4, longitude: -121.5 },
+  WV: { latitude: 38.5, longitude: -81.0 },
+  WI: { latitude: 44.3, longitude: -89.6 },
+  WY: { latitude: 42.8, longitude: -107.3 }
+}
+
+export function findZipRegion(zipCode: string): ZipRegion | null {
+  const prefix = zipCode.trim().slice(0, 3)
+  if (!/^\d{3}$/.test(prefix)) return null
+  return ZIP_REGIONS.find(region => prefix >= region.from && prefix <= region.to) ?? null
+}
@@ -0,0 +1,565 @@
+// Canonical domain types shared by every route and component, plus runtime validators
+// for data that crosses a trust boundary (request bodies, upstream payloads).
+
+export interface Team {
+  teamId: number
+  teamName: string
+  teamCity: string
+  teamTricode: string
+  teamSlug: string
+  wins: number
+  losses: number
+  score: number
+  seed: number
+}
+
+export interface Broadcaster {
+  broadcasterScope: string
+  broadcasterMedia: string
+  broadcasterId: number
+  broadcasterDisplay: string
+  broadcasterAbbreviation: string
+  broadcasterDescription: string
+  tapeDelayComments: string
+  broadcasterVideoLink: string
+  broadcasterTeamId: number
+  broadcasterRanking: number | null
+  localizationRegion: string
+}
+
+export interface Broadcasters {
+  nationalBroadcasters: Broadcaster[]
+  nationalRadioBroadcasters: Broadcaster[]
+  nationalOttBroadcasters: Broadcaster[]
+  homeTvBroadcasters: Broadcaster[]
+  homeRadioBroadcasters: Broadcaster[]
+  homeOttBroadcasters: Broadcaster[]
+  awayTvBroadcasters: Broadcaster[]
+  awayRadioBroadcasters: Broadcaster[]
+  awayOttBroadcasters: Broadcaster[]
+}
+
+export interface Game {
+  gameId: string
+  gameCode: string
+  gameStatus: number
+  gameStatusText: string
+  gameSequence: number
+  gameDateEst: string
+  gameTimeEst: string
+  gameDateTimeEst: string
+  gameDateUTC: string
+  gameTimeUTC: string
+  gameDateTimeUTC: string
+  awayTeamTime: string
+  homeTeamTime: string
+  day: string
+  monthNum: number
+  weekNumber: number
+  weekName: string
+  ifNecessary: string
+  seriesGameNumber: string
+  gameLabel: string
+  gameSubLabel: string
+  seriesText: string
+  arenaName: string
+  arenaState: string
+  arenaCity: string
+  postponedStatus: string
+  branchLink: string
+  gameSubtype: string
+  isNeutral: boolean
+  broadcasters: Broadcasters
+  homeTeam: Team
+  awayTeam: Team
+  pointsLeaders: unknown[]
+}
+
+export interface GameDate {
+  gameDate: string
+  games: Game[]
+}
+
+export interface LeagueSchedule {
+  seasonYear: string
+  leagueId: string
+  gameDates: GameDate[]
+}
+
+export interface ScheduleData {
+  meta: {
+    version: number
+    request: string
+    time: string
+  }
+  leagueSchedule: LeagueSchedule
+}
+
+// Current state of a game, from the live scoreboard (or derived from fixture data offline)
+export interface LiveGameStatus {
+  gameId: string
+  // NBA CDN gameStatus: 1 scheduled, 2 in progress, 3 final
+  gameStatus: number
+  gameStatusText: string
+  period: number
+  // "5:12", empty between periods
+  gameClock: string
+  regulationPeriods: number
+  homeScore: number
+  awayScore: number
+  // When the game is expected to end given its progress; the observed end once final
+  estimatedEndTimeUTC?: string
+}
+
+// Priority rules are evaluated by lib/priority-rules.ts. Weights are points on the 1-10 scale.
+interface PriorityRuleBase {
+  id: string
+  enabled: boolean
+  weight: number
+}
+
+export interface FavoriteTeamRule extends PriorityRuleBase {
+  type: 'favoriteTeam'
+}
+
+export interface RegionalRule extends PriorityRuleBase {
+  type: 'regional'
+}
+
+export interface PlayoffRule extends PriorityRuleBase {
+  type: 'playoff'
+}
+
+// +weight when the teams' average win percentage is above `above`, -weight below `below`
+export interface TeamQualityRule extends PriorityRuleBase {
+  type: 'teamQuality'
+  above: number
+  below: number
+}
+
+export interface NationalBroadcastRule extends PriorityRuleBase {
+  type: 'nationalBroadcast'
+}
+
+export interface RivalryRule extends PriorityRuleBase {
+  type: 'rivalry'
+  teams: [string, string]
+}
+
+export interface StandingsProximityRule extends PriorityRuleBase {
+  type: 'standingsProximity'
+  maxGamesApart: number
+}
+
+// The schedule has no rosters, so a star is tied to the team they play for
+export interface StarPlayerRule extends PriorityRuleBase {
+  type: 'starPlayer'
+  player: string
+  teamTricode: string
+}
+
+// A favorite team playing this opponent
+export interface OpponentRule extends PriorityRuleBase {
+  type: 'opponent'
+  teamTricode: string
+}
+
+export type PriorityRule =
+  | FavoriteTeamRule
+  | RegionalRule
+  | PlayoffRule
+  | TeamQualityRule
+  | NationalBroadcastRule
+  | RivalryRule
+  | StandingsProximityRule
+  | StarPlayerRule
+  | OpponentRule
+
+export type PriorityRuleType = PriorityRule['type']
+
+// A rule that fired for a game and what it added (or took away)
+export interface PriorityRuleResult {
+  ruleId: string
+  type: PriorityRuleType
+  label: string
+  points: number
+}
+
+export type TvZone = 'bar' | 'dining' | 'patio' | 'lounge' | 'other'
+
+// One screen in the venue; see lib/tv-inventory.ts
+export interface TvDefinition {
+  id: string
+  name: string
+  zone: TvZone
+  sizeInches: number
+  // 1-10, 10 being the screen the whole room watches
+  prominence: number
+  hasAudio: boolean
+  // Inputs and services the TV can tune, e.g. "Cable", "ESPN+", "NBA League Pass"
+  inputs: string[]
+}
+
+// A venue's own channel number for a broadcaster, matched by id when given, else by name
+export interface ChannelOverride {
+  broadcasterDisplay: string
+  broadcasterId?: number
+  channel: string
+}
+
+// What a venue's TVs are tuned with; see lib/channel-lineup.ts
+export interface ChannelLineup {
+  // Bundled lineup from lib/data/channel-lineups.ts, null for overrides only
+  providerId: string | null
+  overrides: ChannelOverride[]
+}
+
+// What generate-calendar does with games the venue can't tune - blacked out or on none of its subscriptions
+export type UnwatchableGameHandling = 'exclude' | 'deprioritize'
+
+export interface UserPreferences {
+  sportsInterests: string[]
+  // Kept equal to tvs.length once an inventory is saved
+  numberOfTvs: number
+  // Free-text notes for the AI narrative; the inventory below drives assignments
+  tvSetupDescription: string
+  favoriteNbaTeams: string[]
+  zipCode: string
+  // IANA zone the venue's times are shown in; see resolveTimeZone for the default
+  timezone?: string
+  // Missing means DEFAULT_PRIORITY_RULES
+  priorityRules?: PriorityRule[]
+  // Missing means numberOfTvs generic TVs, see getTvInventory
+  tvs?: TvDefinition[]
+  channelProvider?: string
+  channelOverrides?: ChannelOverride[]
+  // Networks, regional sports networks and streaming services the venue has; missing means
+  // every feed not blacked out in the venue's market counts, see lib/watchability.ts
+  subscriptions?: string[]
+  // Missing means 'exclude'
+  unwatchableGames?: UnwatchableGameHandling
+}
+
+// Keeps a game on a TV when the plan is regenerated; everything else is re-planned around it
+export interface PinnedAssignment {
+  gameId: string
+  tvNumber: number
+}
+
+// A TV that can't show games for a while, e.g. reserved for a private event
+export interface BlockedTvWindow {
+  tvNumber: number
+  // ISO 8601
+  start: string
+  end: string
+}
+
+export interface OptimizedGame extends Game {
+  priority: number
+  // Rules that produced the priority, in evaluation order
+  priorityBreakdown?: PriorityRuleResult[]
+  tvAssignment: number
+  color: string
+  reasoning: string
+  assignedDate?: string
+  assignedTimeSlot?: string
+  // Set on deprioritized games the venue can't tune, e.g. "only on NBA League Pass"
+  unwatchableReason?: string
+  // Kept on this TV by a PinnedAssignment
+  pinned?: boolean
+}
+
+// A week's TV plan as shown, edited and emailed
+export interface ViewingPlan {
+  // One entry per TV a game is on
+  optimizedGames: OptimizedGame[]
+  tvSchedule: Record<number, OptimizedGame[]>
+  recommendations: string[]
+  weekSummary: string
+  // Names from the venue's TV inventory, by TV number
+  tvs?: Array<{ tvNumber: number; name: string }>
+  // Kept in place the next time the week is generated; saved with the plan so every device sees them
+  pinnedAssignments?: PinnedAssignment[]
+}
+
+// What produced a saved plan version
+export interface PlanProducer {
+  // 'tv-solver' for generated plans, 'manual' for hand edits
+  assignments: 'tv-solver' | 'manual'
+  // The model that wrote the recommendations, or 'automatic'
+  narrative: string
+}
+
+// A saved plan version without the plan itself; see lib/plan-store.ts
+export interface PlanVersionSummary {
+  version: number
+  createdAt: string
+  generatedBy: string
+  producer: PlanProducer
+  // The version a hand edit started from
+  basedOn?: number
+}
+
+export interface PlanVersion extends PlanVersionSummary {
+  preferences: UserPreferences
+  plan: ViewingPlan
+}
+
+// A bar or restaurant. Its preferences are shared by every device and the email scheduler; see
+// lib/venue-store.ts
+export interface Venue {
+  id: string
+  name: string
+  // null until someone saves preferences for it
+  preferences: UserPreferences | null
+  updatedAt: string | null
+}
+
+// 'daily' goes out every morning with the day's games, 'weekly' on Mondays with the week ahead
+export type SubscriptionCadence = 'daily' | 'weekly'
+
+// 'schedule' lists the games; 'optimized' sends the venue's saved TV plan
+export type SubscriptionPlanType = 'schedule' | 'optimized'
+
+// Nothing is sent until the recipient confirms their address
+export type SubscriptionStatus = 'pending' | 'active' | 'unsubscribed'
+
+// How a recipient is reached; see lib/notifications.ts
+export type NotificationChannelName = 'email' | 'sms'
+
+// One recipient's standing order for the schedule by email or text; see lib/email-scheduler.ts
+export interface Subscription {
+  id: string
+  venueId: string
+  channel: NotificationChannelName
+  // An email address, or an E.164 phone number for text messages
+  address: string
+  cadence: SubscriptionCadence
+  // "HH:MM" in the venue's time zone
+  sendTime: string
+  planType: SubscriptionPlanType
+  status: SubscriptionStatus
+  // Secret in the confirm, manage and unsubscribe links; never listed by the API
+  token: string
+  createdAt: string
+  confirmedAt: string | null
+  // The venue's calendar date (YYYY-MM-DD) it was last sent for
+  lastSentOn: string | null
+  lastError: string | null
+}
+
+// A subscription as listed to venue managers
+export type SubscriptionSummary = Omit<Subscription, 'token'>
+
+export const BROADCASTER_LIST_KEYS: Array<keyof Broadcasters> = [
+  'nationalBroadcasters',
+  'nationalRadioBroadcasters',
+  'nationalOttBroadcasters',
+  'homeTvBroadcasters',
+  'homeRadioBroadcasters',
+  'homeOttBroadcasters',
+  'awayTvBroadcasters',
+  'awayRadioBroadcasters',
+  'awayOttBroadcasters'
+]
+
+export const TV_ZONES: TvZone[] = ['bar', 'dining', 'patio', 'lounge', 'other']
+
+export const UNWATCHABLE_GAME_HANDLINGS: UnwatchableGameHandling[] = ['exclude', 'deprioritize']
+
+export const SUBSCRIPTION_CADENCES: SubscriptionCadence[] = ['daily', 'weekly']
+
+export const SUBSCRIPTION_PLAN_TYPES: SubscriptionPlanType[] = ['schedule', 'optimized']
+
+export const NOTIFICATION_CHANNEL_NAMES: NotificationChannelName[] = ['email', 'sms']
+
+// The venue used until another one is set up
+export const DEFAULT_VENUE_ID = 'default'
+
+// Venue ids end up in file names
+export function isValidVenueId(venueId: string) {
+  return /^[a-z0-9-]{1,64}$/i.test(venueId)
+}
+
+// The TV and radio broadcasters carrying a game, skipping placeholders
+export function getGameBroadcasters(broadcasters: Broadcasters) {
+  const allBroadcasters = [
+    ...broadcasters.nationalBroadcasters,
+    ...broadcasters.homeTvBroadcasters,
+    ...broadcasters.homeRadioBroadcasters,
+    ...broadcasters.awayTvBroadcasters,
+    ...broadcasters.awayRadioBroadcasters
+  ]
+
+  return allBroadcasters
+    .filter(broadcaster => broadcaster.broadcasterDisplay !== 'TBD' && broadcaster.broadcasterDisplay)
+}
+
+// Display names of the TV and radio broadcasters carrying a game
+export function getBroadcasterNames(broadcasters: Broadcasters) {
+  return getGameBroadcasters(broadcasters).map(broadcaster => broadcaster.broadcasterDisplay)
+}
+
+// Runtime validators
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+export function isTeam(value: unknown): value is Team {
+  return isRecord(value) &&
+    typeof value.teamId === 'number' &&
+    typeof value.teamName === 'string' &&
+    typeof value.teamCity === 'string' &&
+    typeof value.teamTricode === 'string' &&
+    typeof value.wins === 'number' &&
+    typeof value.losses === 'number'
+}
+
+export function isBroadcaster(value: unknown): value is Broadcaster {
+  return isRecord(value) &&
+    typeof value.broadcasterId === 'number' &&
+    typeof value.broadcasterDisplay === 'string'
+}
+
+export function isBroadcasters(value: unknown): value is Broadcasters {
+  return isRecord(value) &&
+    BROADCASTER_LIST_KEYS.every(key => Array.isArray(value[key]) && (value[key] as unknown[]).every(isBroadcaster))
+}
+
+export function isGame(value: unknown): value is Game {
+  return isRecord(value) &&
+    typeof value.gameId === 'string' &&
+    typeof value.gameStatus === 'number' &&
+    typeof value.gameStatusText === 'string' &&
+    typeof value.gameDateEst === 'string' &&
+    typeof value.gameDateTimeUTC === 'string' &&
+    typeof value.gameLabel === 'string' &&
+    typeof value.arenaName === 'string' &&
+    isBroadcasters(value.broadcasters) &&
+    isTeam(value.homeTeam) &&
+    isTeam(value.awayTeam)
+}
+
+export function isPriorityRule(value: unknown): value is PriorityRule {
+  if (!isRecord(value) ||
+      typeof value.id !== 'string' ||
+      typeof value.enabled !== 'boolean' ||
+      typeof value.weight !== 'number' ||
+      !Number.isFinite(value.weight)) {
+    return false
+  }
+
+  switch (value.type) {
+    case 'favoriteTeam':
+    case 'regional':
+    case 'playoff':
+    case 'nationalBroadcast':
+      return true
+    case 'teamQuality':
+      return typeof value.above === 'number' && typeof value.below === 'number'
+    case 'rivalry':
+      return isStringArray(value.teams) && value.teams.length === 2
+    case 'standingsProximity':
+      return typeof value.maxGamesApart === 'number' && value.maxGamesApart >= 0
+    case 'starPlayer':
+      return typeof value.player === 'string' && typeof value.teamTricode === 'string'
+    case 'opponent':
+      return typeof value.teamTricode === 'string'
+    default:
+      return false
+  }
+}
+
+export function isTvDefinition(value: unknown): value is TvDefinition {
+  return isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    TV_ZONES.includes(value.zone as TvZone) &&
+    typeof value.sizeInches === 'number' &&
+    typeof value.prominence === 'number' &&
+    value.prominence >= 1 &&
+    value.prominence <= 10 &&
+    typeof value.hasAudio === 'boolean' &&
+    isStringArray(value.inputs)
+}
+
+export function isPinnedAssignment(value: unknown): value is PinnedAssignment {
+  return isRecord(value) &&
+    typeof value.gameId === 'string' &&
+    typeof value.tvNumber === 'number' &&
+    Number.isInteger(value.tvNumber)
+}
+
+export function isBlockedTvWindow(value: unknown): value is BlockedTvWindow {
+  return isRecord(value) &&
+    typeof value.tvNumber === 'number' &&
+    Number.isInteger(value.tvNumber) &&
+    typeof value.start === 'string' &&
+    !Number.isNaN(Date.parse(value.start)) &&
+    typeof value.end === 'string' &&
+    !Number.isNaN(Date.parse(value.end))
+}
+
+export function isChannelOverride(value: unknown): value is ChannelOverride {
+  return isRecord(value) &&
+    typeof value.broadcasterDisplay === 'string' &&
+    (value.broadcasterId === undefined || typeof value.broadcasterId === 'number') &&
+    typeof value.channel === 'string'
+}
+
+export function isChannelLineup(value: unknown): value is ChannelLineup {
+  return isRecord(value) &&
+    (value.providerId === null || typeof value.providerId === 'string') &&
+    Array.isArray(value.overrides) &&
+    value.overrides.every(isChannelOverride)
+}
+
+export function isUserPreferences(value: unknown): value is UserPreferences {
+  return isRecord(value) &&
+    isStringArray(value.sportsInterests) &&
+    typeof value.numberOfTvs === 'number' &&
+    Number.isInteger(value.numberOfTvs) &&
+    value.numberOfTvs >= 1 &&
+    typeof value.tvSetupDescription === 'string' &&
+    isStringArray(value.favoriteNbaTeams) &&
+    typeof value.zipCode === 'string' &&
+    (value.timezone === undefined || typeof value.timezone === 'string') &&
+    (value.priorityRules === undefined || (Array.isArray(value.priorityRules) && value.priorityRules.every(isPriorityRule))) &&
+    (value.tvs === undefined || (Array.isArray(value.tvs) && value.tvs.length > 0 && value.tvs.every(isTvDefinition))) &&
+    (value.channelProvider === undefined || typeof value.channelProvider === 'string') &&
+    (value.channelOverrides === undefined || (Array.isArray(value.channelOverrides) && value.channelOverrides.every(isChannelOverride))) &&
+    (value.subscriptions === undefined || isStringArray(value.subscriptions)) &&
+    (value.unwatchableGames === undefined || UNWATCHABLE_GAME_HANDLINGS.includes(value.unwatchableGames as UnwatchableGameHandling))
+}
+
+function isOptimizedGame(value: unknown): value is OptimizedGame {
+  return isGame(value) &&
+    isRecord(value) &&
+    typeof value.priority === 'number' &&
+    typeof value.tvAssignment === 'number' &&
+    typeof value.color === 'string' &&
+    typeof value.reasoning === 'string'
+}
+
+export function isViewingPlan(value: unknown): value is ViewingPlan {
+  return isRecord(value) &&
+    Array.isArray(value.optimizedGames) &&
+    value.optimizedGames.every(isOptimizedGame) &&
+    isRecord(value.tvSchedule) &&
+    Object.values(value.tvSchedule).every(games => Array.isArray(games) && games.every(isOptimizedGame)) &&
+    isStringArray(value.recommendations) &&
+    typeof value.weekSummary === 'string' &&
+    (value.pinnedAssignments === undefined || (Array.isArray(value.pinnedAssignments) && value.pinnedAssignments.every(isPinnedAssignment)))
+}
+
+// Index of the first game that fails validation, or -1 when all are valid
+export function findInvalidGame(games: unknown[]) {
+  return games.findIndex(game => !isGame(game))
+}
@@ -0,0 +1,106 @@
+// Observed game durations, recorded while polling the live scoreboard. A game's end is only
+// recorded when it was seen in progress shortly before it went final, so a server that was
+// down during the game doesn't record a duration hours too long.
+
+import type { Game, LiveGameStatus } from './domain'
+import { DurationSample, DurationStat, getDurationFactors, summarizeDurations } from './game-duration'
+import { readDocument, writeDocument } from './storage'
+
+const DOCUMENT_NAME = 'game-durations'
+
+// Keep the most recent observations only
+const MAX_OBSERVATIONS = 1000
+
+// Longest gap between the last in-progress sighting and the first final one
+const MAX_SIGHTING_GAP_MS = 10 * 60 * 1000
+
+// Anything outside this range is a data problem, not a game
+const MIN_PLAUSIBLE_MINUTES = 90
+const MAX_PLAUSIBLE_MINUTES = 300
+
+export interface DurationObservation extends DurationSample {
+  gameId: string
+  startTime: string
+  endTime: string
+}
+
+interface DurationDocument {
+  observations: DurationObservation[]
+}
+
+interface HistoryState {
+  document: DurationDocument | null
+  lastSeenInProgress: Map<string, number>
+}
+
+const globalForHistory = globalThis as typeof globalThis & { __durationHistory?: HistoryState }
+
+const state: HistoryState = globalForHistory.__durationHistory ?? {
+  document: null,
+  lastSeenInProgress: new Map()
+}
+globalForHistory.__durationHistory = state
+
+async function loadDocument() {
+  if (!state.document) {
+    state.document = await readDocument<DurationDocument>(DOCUMENT_NAME, { observations: [] })
+  }
+  return state.document
+}
+
+export async function getDurationStats(): Promise<DurationStat[]> {
+  try {
+    return summarizeDurations((await loadDocument()).observations)
+  } catch (error) {
+    console.error('Failed to load game duration history:', error)
+    return []
+  }
+}
+
+export async function getObservedEndTimes(): Promise<Map<string, string>> {
+  try {
+    const { observations } = await loadDocument()
+    return new Map(observations.map(observation => [observation.gameId, observation.endTime]))
+  } catch (error) {
+    console.error('Failed to load game duration history:', error)
+    return new Map()
+  }
+}
+
+// Call with every scoreboard snapshot; observedAt is when the snapshot was fetched
+export async function recordLiveStatuses(statuses: LiveGameStatus[], gamesById: Map<string, Game>, observedAt: Date) {
+  const document = await loadDocument()
+  const recorded = new Set(document.observations.map(observation => observation.gameId))
+  const added: DurationObservation[] = []
+
+  statuses.forEach(status => {
+    if (status.gameStatus === 2) {
+      state.lastSeenInProgress.set(status.gameId, observedAt.getTime())
+      return
+    }
+    if (status.gameStatus !== 3) return
+
+    const lastSeen = state.lastSeenInProgress.get(status.gameId)
+    state.lastSeenInProgress.delete(status.gameId)
+    const game = gamesById.get(status.gameId)
+    if (lastSeen === undefined || !game || recorded.has(status.gameId)) return
+    if (observedAt.getTime() - lastSeen > MAX_SIGHTING_GAP_MS) return
+
+    // The game ended somewhere between the two sightings
+    const endTime = new Date((lastSeen + observedAt.getTime()) / 2)
+    const minutes = Math.round((endTime.getTime() - new Date(game.gameDateTimeUTC).getTime()) / 60000)
+    if (minutes < MIN_PLAUSIBLE_MINUTES || minutes > MAX_PLAUSIBLE_MINUTES) return
+
+    added.push({
+      ...getDurationFactors(game),
+      gameId: game.gameId,
+      startTime: game.gameDateTimeUTC,
+      endTime: endTime.toISOString(),
+      minutes
+    })
+  })
+
+  if (added.length === 0) return
+  document.observations = [...document.observations, ...added].slice(-MAX_OBSERVATIONS)
+  await writeDocument(DOCUMENT_NAME, document)
+}
@@ -0,0 +1,238 @@
+// Sends due subscriptions (lib/subscription-store.ts) by email or text message
+// (lib/notifications.ts). /api/cron/email runs this every few minutes. A confirmed subscription goes
+// out on the first run after its send time in the venue's zone, once a day for daily ones and on
+// Mondays for weekly ones. A day the cron never ran isn't made up later. Pass `at` to run as of
+// another time; it defaults to the server clock (lib/clock.ts). Daily sends of a saved plan are the
+// one-day run sheet (lib/daily-digest.ts). Links point at APP_URL, or the origin the request came in on.
+
+import { getChannelLineup } from './channel-lineup'
+import { now } from './clock'
+import { buildDailyDigest } from './daily-digest'
+import { ChannelLineup, Game, Subscription, UserPreferences, ViewingPlan } from './domain'
+import { getDurationStats } from './duration-history'
+import { EmailWeekData, generateConfirmationEmailHTML } from './email-templates'
+import { getWeekCalendarAttachment } from './ical'
+import { getNbaSchedule } from './nba-schedule'
+import { Notification, buildDigestNotification, buildScheduleNotification, sendNotification } from './notifications'
+import { buildTvSchedule } from './plan-edits'
+import { getPlanWeekKey } from './plan-history'
+import { getPlanVersion } from './plan-store'
+import { toDateKey } from './schedule-filters'
+import { listSubscriptions, recordSubscriptionRun } from './subscription-store'
+import { getMinutesIntoDay, resolveTimeZone } from './timezone'
+import { getVenue } from './venue-store'
+
+const MONDAY = 1
+
+const CADENCE_DESCRIPTIONS: Record<Subscription['cadence'], string> = {
+  daily: 'every morning',
+  weekly: 'every Monday'
+}
+
+export interface SubscriptionRunResult {
+  subscriptionId: string
+  venueId: string
+  channel: Subscription['channel']
+  // The venue's date the message was for
+  sentOn: string
+  status: 'sent' | 'failed'
+  // One per email or text message
+  messageIds?: string[]
+  error?: string
+  // Saved plan versions an optimized email was built from; empty when it fell back to the schedule
+  planVersions?: number[]
+}
+
+export function getAppUrl(requestOrigin: string) {
+  return (process.env.APP_URL?.trim() || requestOrigin).replace(/\/+$/, '')
+}
+
+// The footer's unsubscribe link opens the manage page rather than unsubscribing outright, so link
+// scanners can't unsubscribe anyone; the List-Unsubscribe header takes the one-click POST
+export function getSubscriptionLinks(subscription: Subscription, appUrl: string) {
+  const token = encodeURIComponent(subscription.token)
+  return {
+    confirmUrl: `${appUrl}/subscriptions?token=${token}&action=confirm`,
+    manageUrl: `${appUrl}/subscriptions?token=${token}`,
+    unsubscribeUrl: `${appUrl}/subscriptions?token=${token}&action=unsubscribe`,
+    oneClickUnsubscribeUrl: `${appUrl}/api/subscriptions/unsubscribe?token=${token}`
+  }
+}
+
+// "the viewing plan every morning at 09:00"
+export function describeSubscription(subscription: Pick<Subscription, 'cadence' | 'sendTime' | 'planType'>) {
+  const contents = subscription.planType === 'optimized' ? 'the viewing plan' : 'the game schedule'
+  return `${contents} ${CADENCE_DESCRIPTIONS[subscription.cadence]} at ${subscription.sendTime}`
+}
+
+export async function sendConfirmation(subscription: Subscription, appUrl: string) {
+  const venueName = (await getVenue(subscription.venueId))?.name ?? 'your venue'
+  const description = describeSubscription(subscription)
+  const { confirmUrl } = getSubscriptionLinks(subscription, appUrl)
+  return sendNotification(subscription, {
+    subject: `Confirm your ${subscription.cadence} sports schedule email`,
+    html: generateConfirmationEmailHTML(venueName, description, confirmUrl),
+    textLines: [`Confirm texts of ${description} from ${venueName}: ${confirmUrl}`]
+  })
+}
+
+// Dates are handled as YYYY-MM-DD keys; noon UTC keeps the arithmetic clear of zone offsets
+function parseDateKey(dateKey: string) {
+  return new Date(`${dateKey}T12:00:00Z`)
+}
+
+function addDays(dateKey: string, days: number) {
+  const date = parseDateKey(dateKey)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+function getVenueTime(at: Date, timeZone: string) {
+  const dateKey = at.toLocaleDateString('en-CA', { timeZone })
+  return { dateKey, weekday: parseDateKey(dateKey).getUTCDay(), minutes: getMinutesIntoDay(at, timeZone) }
+}
+
+function getSendMinutes(sendTime: string) {
+  const [hours, minutes] = sendTime.split(':').map(part => parseInt(part, 10))
+  return hours * 60 + minutes
+}
+
+// The venue date the subscription is due to be sent for at `at`, or null when it isn't due
+export function getDueDate(subscription: Subscription, timeZone: string, at: Date) {
+  const { dateKey, weekday, minutes } = getVenueTime(at, timeZone)
+  const sendMinutes = getSendMinutes(subscription.sendTime)
+
+  if (minutes < sendMinutes) return null
+  if (subscription.cadence === 'weekly' && weekday !== MONDAY) return null
+  if (subscription.lastSentOn && subscription.lastSentOn >= dateKey) return null
+
+  // One created after today's send time starts with the next one
+  const created = getVenueTime(new Date(subscription.createdAt), timeZone)
+  if (created.dateKey > dateKey || (created.dateKey === dateKey && created.minutes > sendMinutes)) return null
+
+  return dateKey
+}
+
+// Schedule dates are Eastern calendar days, as everywhere else in the app
+async function getGamesBetween(firstDay: string, lastDay: string): Promise<Game[]> {
+  const { data } = await getNbaSchedule()
+  return data.schedule.leagueSchedule.gameDates
+    .filter(gameDate => {
+      const dateKey = toDateKey(gameDate.gameDate)
+      return dateKey >= firstDay && dateKey <= lastDay
+    })
+    .flatMap(gameDate => gameDate.games)
+}
+
+// Plans are saved under the Sunday their week starts (see getPlanWeekKey), so a Monday-to-Sunday
+// email can draw on two of them
+async function getSavedPlan(venueId: string, firstDay: string, lastDay: string) {
+  const weekKeys = Array.from(new Set([firstDay, lastDay].map(getPlanWeekKey)))
+  const saved = (await Promise.all(weekKeys.map(week => getPlanVersion(venueId, week))))
+    .filter(version => version !== null)
+  if (saved.length === 0) return null
+
+  const optimizedGames = saved
+    .flatMap(version => version.plan.optimizedGames)
+    .filter(game => {
+      const day = (game.assignedDate || game.gameDateEst).slice(0, 10)
+      return day >= firstDay && day <= lastDay
+    })
+  const tvNumbers = Array.from(new Set(saved.flatMap(version => Object.keys(version.plan.tvSchedule).map(Number))))
+    .sort((a, b) => a - b)
+
+  const plan: ViewingPlan = {
+    optimizedGames,
+    tvSchedule: buildTvSchedule(optimizedGames, tvNumbers),
+    recommendations: saved[0].plan.recommendations,
+    weekSummary: saved[0].plan.weekSummary,
+    tvs: saved[saved.length - 1].plan.tvs
+  }
+  return { plan, versions: saved.map(version => version.version) }
+}
+
+// The run sheet for one date of the venue's saved plan, or null when that week has no saved plan
+export async function getSavedDigest(venueId: string, date: string, channelLineup: ChannelLineup) {
+  const saved = await getPlanVersion(venueId, getPlanWeekKey(date))
+  return saved ? { digest: buildDailyDigest(saved.plan, date, channelLineup), planVersions: [saved.version] } : null
+}
+
+// Optimized subscriptions send the venue's saved plan, or the plain schedule when there isn't one.
+// Weekly emails attach the week as an .ics calendar.
+export async function buildSubscriptionNotification(
+  subscription: Subscription,
+  sentOn: string,
+  preferences: UserPreferences | null,
+  appUrl: string
+): Promise<{ notification: Notification; planVersions?: number[] }> {
+  const lastDay = subscription.cadence === 'weekly' ? addDays(sentOn, 6) : sentOn
+  // Local noon, so the email's date range shows the same days wherever the server runs
+  const range = { weekStart: `${sentOn}T12:00:00`, weekEnd: `${lastDay}T12:00:00` }
+  const timeZone = resolveTimeZone(preferences)
+  const channelLineup = getChannelLineup(preferences)
+
+  const saved = subscription.planType === 'optimized' ? await getSavedPlan(subscription.venueId, sentOn, lastDay) : null
+  const weekData: EmailWeekData = saved
+    ? { ...range, ...saved.plan, games: saved.plan.optimizedGames, isOptimized: true }
+    : { ...range, games: await getGamesBetween(sentOn, lastDay) }
+
+  const links = getSubscriptionLinks(subscription, appUrl)
+  const notification = saved && subscription.cadence === 'daily'
+    ? buildDigestNotification(buildDailyDigest(saved.plan, sentOn, channelLineup), timeZone, links)
+    : buildScheduleNotification(weekData, !!saved, timeZone, channelLineup, links)
+  const attachments = subscription.cadence === 'weekly'
+    ? [getWeekCalendarAttachment(subscription.venueId, weekData, !!saved, channelLineup, await getDurationStats())]
+    : undefined
+  return {
+    notification: {
+      ...notification,
+      attachments,
+      // One-click unsubscribe (RFC 8058)
+      headers: {
+        'List-Unsubscribe': `<${links.oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+    },
+    planVersions: subscription.planType === 'optimized' ? saved?.versions ?? [] : undefined
+  }
+}
+
+async function runSubscriptions(appUrl: string, at: Date): Promise<SubscriptionRunResult[]> {
+  const results: SubscriptionRunResult[] = []
+
+  // One at a time - there are few, and the mail and SMS providers rate-limit
+  for (const subscription of await listSubscriptions()) {
+    if (subscription.status !== 'active') continue
+
+    const preferences = (await getVenue(subscription.venueId))?.preferences ?? null
+    const sentOn = getDueDate(subscription, resolveTimeZone(preferences), at)
+    if (!sentOn) continue
+
+    const result = { subscriptionId: subscription.id, venueId: subscription.venueId, channel: subscription.channel, sentOn }
+    try {
+      const { notification, planVersions } = await buildSubscriptionNotification(subscription, sentOn, preferences, appUrl)
+      const messageIds = await sendNotification(subscription, notification)
+      await recordSubscriptionRun(subscription.id, { sentOn })
+      results.push({ ...result, status: 'sent', messageIds, planVersions })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Failed to send subscription ${subscription.id}:`, error)
+      await recordSubscriptionRun(subscription.id, { error: message })
+      results.push({ ...result, status: 'failed', error: message })
+    }
+  }
+
+  return results
+}
+
+// Overlapping calls share one run so nothing is sent twice
+let running: Promise<SubscriptionRunResult[]> | null = null
+
+export function runDueSubscriptions(appUrl: string, at: Date = now()): Promise<SubscriptionRunResult[]> {
+  if (!running) {
+    running = runSubscriptions(appUrl, at).finally(() => {
+      running = null
+    })
+  }
+  return running
+}
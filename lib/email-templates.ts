@@ -0,0 +1,433 @@
+// HTML for the schedule, viewing plan and daily digest emails, shared by /api/email-schedule and the subscription
+// scheduler (lib/email-scheduler.ts)
+
+import { ChannelLineup, Game } from './domain'
+import { formatTunedBroadcaster, getTunedBroadcasters } from './channel-lineup'
+import { now } from './clock'
+import { DailyDigest, formatDigestDate, formatDigestHeading, formatRunSheetLine } from './daily-digest'
+import { formatGameStartTime } from './timezone'
+
+export interface EmailWeekData {
+  weekStart: string
+  weekEnd: string
+  games: Game[]
+  tvSchedule?: Record<number, Game[]>
+  recommendations?: string[]
+  weekSummary?: string
+  // Names from the venue's TV inventory, by TV number
+  tvs?: Array<{ tvNumber: number; name: string }>
+  isOptimized?: boolean
+}
+
+export function formatWeekRange(weekStart: string, weekEnd: string) {
+  const start = new Date(weekStart)
+  const end = new Date(weekEnd)
+  
+  const startMonth = start.toLocaleDateString('en-US', { month: 'short' })
+  const endMonth = end.toLocaleDateString('en-US', { month: 'short' })
+  const startDay = start.getDate()
+  const endDay = end.getDate()
+  const year = end.getFullYear()
+  
+  if (start.toDateString() === end.toDateString()) {
+    return `${startMonth} ${startDay}, ${year}`
+  } else if (startMonth === endMonth) {
+    return `${startMonth} ${startDay}-${endDay}, ${year}`
+  } else {
+    return `${startMonth} ${startDay} - ${endMonth} ${endDay}, ${year}`
+  }
+}
+
+function formatGameTime(game: Game, timeZone: string) {
+  return formatGameStartTime(game, timeZone)
+}
+
+function formatDate(dateString: string) {
+  const date = new Date(dateString)
+  return date.toLocaleDateString('en-US', { 
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+// "ESPN · ch 206, NBC Sports Bay Area" - channels from the venue's lineup where known. Overrides are
+// typed in by the venue, so this is escaped where rendered.
+function formatBroadcasters(game: Game, channelLineup: ChannelLineup) {
+  return getTunedBroadcasters(game.broadcasters, channelLineup).map(formatTunedBroadcaster).join(', ')
+}
+
+export function generateEmailHTML(weekData: EmailWeekData, timeZone: string, channelLineup: ChannelLineup, links?: EmailFooterLinks) {
+  const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
+  
+  // Group games by date
+  const gamesByDate = new Map<string, Game[]>()
+  weekData.games.forEach(game => {
+    const date = game.gameDateEst.split(' ')[0] // Get date part only
+    if (!gamesByDate.has(date)) {
+      gamesByDate.set(date, [])
+    }
+    gamesByDate.get(date)!.push(game)
+  })
+
+  // Sort dates
+  const sortedDates = Array.from(gamesByDate.keys()).sort((a, b) => {
+    return new Date(a).getTime() - new Date(b).getTime()
+  })
+
+  let gamesHTML = ''
+  
+  if (sortedDates.length === 0) {
+    gamesHTML = '<p style="text-align: center; color: #666; font-style: italic; margin: 20px 0;">No games scheduled for this week.</p>'
+  } else {
+    gamesHTML = sortedDates.map(date => {
+      const games = gamesByDate.get(date)!
+      const formattedDate = formatDate(date)
+      
+      const dayGamesHTML = games.map(game => `
+        <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; margin: 8px 0; background-color: #ffffff;">
+          <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 12px;">
+            <div style="display: flex; align-items: center; gap: 8px;">
+              <span style="background-color: #fed7aa; color: #ea580c; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-weight: 500;">
+                ${escapeHtml(game.gameLabel)}
+              </span>
+              ${game.gameSubLabel ? `<span style="background-color: #f3f4f6; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px;">${escapeHtml(game.gameSubLabel)}</span>` : ''}
+            </div>
+            <div style="font-size: 18px; font-weight: 600; color: #2563eb;">
+              ${escapeHtml(formatGameTime(game, timeZone))}
+            </div>
+          </div>
+          
+          <div style="margin-bottom: 12px;">
+            <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px;">
+              <div style="display: flex; align-items: center; gap: 12px;">
+                <span style="font-size: 14px; color: #6b7280; width: 48px;">Away:</span>
+                <span style="font-weight: 600; color: #111827;">
+                  ${escapeHtml(`${game.awayTeam.teamCity} ${game.awayTeam.teamName}`)}
+                </span>
+                <span style="background-color: #e5e7eb; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-family: monospace;">
+                  ${escapeHtml(game.awayTeam.teamTricode)}
+                </span>
+                <span style="font-size: 14px; color: #6b7280;">
+                  (${game.awayTeam.wins}-${game.awayTeam.losses})
+                </span>
+              </div>
+            </div>
+            <div style="display: flex; align-items: center; justify-content: space-between;">
+              <div style="display: flex; align-items: center; gap: 12px;">
+                <span style="font-size: 14px; color: #6b7280; width: 48px;">Home:</span>
+                <span style="font-weight: 600; color: #111827;">
+                  ${escapeHtml(`${game.homeTeam.teamCity} ${game.homeTeam.teamName}`)}
+                </span>
+                <span style="background-color: #e5e7eb; color: #374151; padding: 4px 8px; border-radius: 4px; font-size: 14px; font-family: monospace;">
+                  ${escapeHtml(game.homeTeam.teamTricode)}
+                </span>
+                <span style="font-size: 14px; color: #6b7280;">
+                  (${game.homeTeam.wins}-${game.homeTeam.losses})
+                </span>
+              </div>
+            </div>
+          </div>
+          
+          <div style="border-top: 1px solid #e5e7eb; padding-top: 12px;">
+            <div style="display: flex; align-items: center; gap: 8px; font-size: 14px; color: #6b7280;">
+              <svg style="width: 16px; height: 16px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              <span>
+                ${escapeHtml([game.arenaName, game.arenaCity, game.arenaState].filter(Boolean).join(', '))}
+              </span>
+              ${game.isNeutral ? '<span style="background-color: #fef3c7; color: #d97706; padding: 2px 8px; border-radius: 4px; font-size: 12px;">Neutral Site</span>' : ''}
+            </div>
+            <div style="font-size: 14px; color: #6b7280; margin-top: 8px;">
+              📺 ${escapeHtml(formatBroadcasters(game, channelLineup) || 'Broadcast TBD')}
+            </div>
+          </div>
+        </div>
+      `).join('')
+      
+      return `
+        <div style="margin-bottom: 32px;">
+          <h3 style="background-color: #2563eb; color: white; padding: 16px 24px; margin: 0; font-size: 20px; font-weight: 600; border-radius: 8px 8px 0 0;">
+            ${escapeHtml(formattedDate)}
+          </h3>
+          <div style="background-color: #f9fafb; padding: 16px 24px; border-radius: 0 0 8px 8px;">
+            <p style="color: #2563eb; margin: 0 0 16px 0; font-size: 16px;">
+              ${games.length} game${games.length !== 1 ? 's' : ''}
+            </p>
+            ${dayGamesHTML}
+          </div>
+        </div>
+      `
+    }).join('')
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>NBA Schedule - ${escapeHtml(weekRange)}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
+      <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <header style="background: linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%); color: white; padding: 32px 24px; text-align: center;">
+          <h1 style="margin: 0 0 8px 0; font-size: 32px; font-weight: bold;">NBA Schedule</h1>
+          <h2 style="margin: 0; font-size: 24px; font-weight: 600; opacity: 0.9;">${escapeHtml(weekRange)}</h2>
+        </header>
+        
+        <div style="padding: 32px 24px;">
+          ${gamesHTML}
+        </div>
+        
+        <footer style="background-color: #f3f4f6; padding: 16px 24px; text-align: center; color: #6b7280; font-size: 14px;">
+          <p style="margin: 0;">Generated on ${now().toLocaleDateString('en-US', { 
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            timeZone,
+            timeZoneName: 'short'
+          })}</p>
+          ${formatFooterLinks(links)}
+        </footer>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+export interface EmailFooterLinks {
+  manageUrl: string
+  unsubscribeUrl: string
+}
+
+function formatFooterLinks(links?: EmailFooterLinks) {
+  if (!links) return ''
+  return `<p style="margin: 8px 0 0 0;">
+            <a href="${escapeHtml(links.manageUrl)}" style="color: #6b7280;">Change how often you get this email</a>
+            &middot;
+            <a href="${escapeHtml(links.unsubscribeUrl)}" style="color: #6b7280;">Unsubscribe</a>
+          </p>`
+}
+
+// Asks a new subscriber to confirm their address before anything else is sent to it
+export function generateConfirmationEmailHTML(venueName: string, description: string, confirmUrl: string) {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Confirm your subscription</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
+      <div style="background-color: white; border-radius: 12px; padding: 32px 24px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+        <h1 style="margin: 0 0 16px 0; font-size: 24px; color: #111827;">Confirm your subscription</h1>
+        <p style="margin: 0 0 24px 0;">
+          Someone asked for ${escapeHtml(description)} from ${escapeHtml(venueName)} to be sent to this address.
+          Nothing will be sent until you confirm.
+        </p>
+        <p style="margin: 0 0 24px 0; text-align: center;">
+          <a href="${escapeHtml(confirmUrl)}" style="display: inline-block; background-color: #2563eb; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">Confirm subscription</a>
+        </p>
+        <p style="margin: 0; color: #6b7280; font-size: 14px;">If this wasn't you, ignore this email and you won't hear from us again.</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// TV names are typed in by the venue, so they are escaped where rendered
+function getTvName(weekData: EmailWeekData, tvNumber: number) {
+  return weekData.tvs?.find(tv => tv.tvNumber === tvNumber)?.name ?? `TV ${tvNumber}`
+}
+
+export function generateOptimizedEmailHTML(weekData: EmailWeekData, timeZone: string, channelLineup: ChannelLineup, links?: EmailFooterLinks) {
+  const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
+  
+  // Generate TV Schedule HTML
+  let tvScheduleHTML = ''
+  if (weekData.tvSchedule) {
+    tvScheduleHTML = Object.entries(weekData.tvSchedule)
+      .sort(([a], [b]) => parseInt(a) - parseInt(b))
+      .map(([tvNumber, games]) => {
+        const gamesList = games as Array<Game & { priority?: number; color?: string; reasoning?: string }>
+        
+        const gamesHTML = gamesList.map(game => {
+          // Convert priority to stars (1-10 scale to 1-5 stars)
+          const priority = game.priority || 5
+          const stars = Math.round(priority / 2) // Convert 1-10 to 1-5 stars
+          const starDisplay = '⭐'.repeat(Math.max(1, Math.min(5, stars))) // Ensure 1-5 stars
+          
+          return `
+            <div style="background-color: #f8fafc; border-left: 4px solid ${escapeHtml(game.color || '#3b82f6')}; padding: 12px; margin-bottom: 8px; border-radius: 6px;">
+              <div style="font-weight: 600; color: #1f2937; margin-bottom: 4px; display: flex; justify-content: space-between; align-items: center;">
+                <span>${escapeHtml(`${game.awayTeam.teamTricode} @ ${game.homeTeam.teamTricode}`)}</span>
+                <span style="font-size: 16px;" title="Priority: ${escapeHtml(String(priority))}/10">${starDisplay}</span>
+              </div>
+              <div style="color: #6b7280; font-size: 14px;">
+                ${escapeHtml(formatGameTime(game, timeZone))}${formatBroadcasters(game, channelLineup) ? ` · ${escapeHtml(formatBroadcasters(game, channelLineup))}` : ''}
+              </div>
+              ${game.reasoning && !game.reasoning.includes('duplicate') ? `
+                <div style="color: #6b7280; font-size: 12px; margin-top: 4px; font-style: italic;">
+                  ${escapeHtml(game.reasoning)}
+                </div>
+              ` : ''}
+            </div>
+          `
+        }).join('')
+
+        return `
+          <div style="background-color: #f9fafb; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+            <h3 style="margin: 0 0 12px 0; color: #374151; font-size: 18px; font-weight: 600; display: flex; align-items: center;">
+              📺 ${escapeHtml(getTvName(weekData, parseInt(tvNumber)))} (${gamesList.length} games)
+            </h3>
+            ${gamesHTML || '<p style="color: #9ca3af; text-align: center; margin: 16px 0;">No games assigned to this TV</p>'}
+          </div>
+        `
+      }).join('')
+  }
+
+  // Generate Recommendations HTML
+  let recommendationsHTML = ''
+  if (weekData.recommendations && weekData.recommendations.length > 0) {
+    recommendationsHTML = `
+      <div style="background-color: #dbeafe; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
+        <h3 style="margin: 0 0 12px 0; color: #1e40af; font-size: 18px; font-weight: 600;">
+          🤖 AI Recommendations
+        </h3>
+        <ul style="margin: 0; padding-left: 20px; color: #1e40af;">
+          ${weekData.recommendations.map(rec => `<li style="margin-bottom: 4px;">${escapeHtml(rec)}</li>`).join('')}
+        </ul>
+      </div>
+    `
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AI-Optimized Sports Schedule</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
+      <div style="background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <header style="background: linear-gradient(135deg, #7c3aed 0%, #3b82f6 100%); color: white; padding: 32px 24px; text-align: center;">
+          <h1 style="margin: 0 0 8px 0; font-size: 32px; font-weight: bold; display: flex; align-items: center; justify-content: center;">
+            <span style="margin-right: 12px;">🧠</span>
+            AI-Optimized Viewing Plan
+          </h1>
+          <h2 style="margin: 0 0 8px 0; font-size: 24px; font-weight: 600; opacity: 0.9;">${escapeHtml(weekRange)}</h2>
+          ${weekData.weekSummary ? `<p style="margin: 0; font-size: 16px; opacity: 0.8;">${escapeHtml(weekData.weekSummary)}</p>` : ''}
+        </header>
+        
+        <div style="padding: 32px 24px;">
+          ${recommendationsHTML}
+          
+          <h2 style="color: #374151; font-size: 24px; font-weight: 600; margin: 0 0 16px 0;">
+            📺 TV Schedule
+          </h2>
+          ${tvScheduleHTML}
+          
+          <div style="background-color: #f3f4f6; border-radius: 8px; padding: 16px; margin-top: 24px;">
+            <h4 style="margin: 0 0 8px 0; color: #374151; font-size: 16px; font-weight: 600;">Priority Color Scale</h4>
+            <div style="display: flex; gap: 16px; flex-wrap: wrap; font-size: 14px;">
+              <div style="display: flex; align-items: center; gap: 8px;">
+                <div style="width: 16px; height: 16px; background-color: rgb(0, 165, 255); border-radius: 2px;"></div>
+                <span>High Priority</span>
+              </div>
+              <div style="display: flex; align-items: center; gap: 8px;">
+                <div style="width: 16px; height: 16px; background-color: rgb(128, 210, 128); border-radius: 2px;"></div>
+                <span>Medium Priority</span>
+              </div>
+              <div style="display: flex; align-items: center; gap: 8px;">
+                <div style="width: 16px; height: 16px; background-color: rgb(255, 255, 0); border-radius: 2px;"></div>
+                <span>Low Priority</span>
+              </div>
+            </div>
+          </div>
+        </div>
+        
+        <footer style="background-color: #f3f4f6; padding: 16px 24px; text-align: center; color: #6b7280; font-size: 14px;">
+          <p style="margin: 0;">AI-Generated on ${now().toLocaleDateString('en-US', { 
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            timeZone,
+            timeZoneName: 'short'
+          })}</p>
+          ${formatFooterLinks(links)}
+        </footer>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// Subscription emails carry both links; one-off sends have neither
+export function buildScheduleEmail(weekData: EmailWeekData, isOptimized: boolean, timeZone: string, channelLineup: ChannelLineup, links?: EmailFooterLinks) {
+  const weekRange = formatWeekRange(weekData.weekStart, weekData.weekEnd)
+  return {
+    weekRange,
+    subject: isOptimized ? `AI-Optimized Viewing Plan - ${weekRange}` : `Sports Schedule - ${weekRange}`,
+    html: isOptimized ? generateOptimizedEmailHTML(weekData, timeZone, channelLineup, links) : generateEmailHTML(weekData, timeZone, channelLineup, links)
+  }
+}
+
+// The daily digest is read on a phone behind the bar: one narrow column, one line per change
+export function generateDigestEmailHTML(digest: DailyDigest, timeZone: string, links?: EmailFooterLinks) {
+  const heading = formatDigestHeading(digest, timeZone)
+  const tvNames = (digest.tvs ?? []).filter(tv => digest.entries.some(entry => entry.tvNumbers.includes(tv.tvNumber)))
+
+  const linesHTML = digest.entries.length === 0
+    ? '<p style="color: #666; font-style: italic; margin: 0;">No games on the plan.</p>'
+    : digest.entries.map(entry => `
+        <div style="padding: 10px 0; border-bottom: 1px solid #e5e7eb; font-size: 16px;${entry.switchTvNumbers.length > 0 ? ' color: #b45309;' : ' color: #111827;'}">
+          ${escapeHtml(formatRunSheetLine(entry, timeZone))}
+        </div>
+      `).join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>${escapeHtml(heading)}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.4; color: #333; max-width: 480px; margin: 0 auto; padding: 12px; background-color: #f9fafb;">
+      <div style="background-color: white; border-radius: 12px; padding: 20px 16px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+        <h1 style="margin: 0 0 12px 0; font-size: 20px; color: #111827;">${escapeHtml(heading)}</h1>
+        <div style="font-family: ui-monospace, SFMono-Regular, Menlo, monospace;">
+          ${linesHTML}
+        </div>
+        ${tvNames.length > 0 ? `<p style="margin: 12px 0 0 0; font-size: 13px; color: #6b7280;">${tvNames.map(tv => `TV${tv.tvNumber}: ${escapeHtml(tv.name)}`).join(' · ')}</p>` : ''}
+      </div>
+      <footer style="padding: 12px 0; text-align: center; color: #6b7280; font-size: 12px;">
+        ${formatFooterLinks(links)}
+      </footer>
+    </body>
+    </html>
+  `
+}
+
+export function buildDigestEmail(digest: DailyDigest, timeZone: string, links?: EmailFooterLinks) {
+  return {
+    subject: `Tonight's TV plan - ${formatDigestDate(digest.date)}`,
+    html: generateDigestEmailHTML(digest, timeZone, links)
+  }
+}
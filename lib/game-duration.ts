@@ -0,0 +1,133 @@
+// Game duration estimates, from observed history when there is enough of it. Shared by the
+// calendar views and the TV assignment logic so both agree on when a TV frees up.
+
+import type { Game, LiveGameStatus } from './domain'
+
+export interface DurationFactors {
+  league: string
+  national: boolean
+  playoff: boolean
+}
+
+export interface DurationSample extends DurationFactors {
+  minutes: number
+}
+
+export interface DurationStat extends DurationFactors {
+  averageMinutes: number
+  samples: number
+}
+
+// Scheduled tip-off to final buzzer, for leagues without enough history
+const BASE_DURATION_MINUTES: Record<string, number> = {
+  NBA: 135
+}
+const FALLBACK_DURATION_MINUTES = 150
+
+// National broadcasts have longer commercial breaks; playoff games add reviews and longer breaks
+const NATIONAL_EXTRA_MINUTES = 10
+const PLAYOFF_EXTRA_MINUTES = 15
+
+// Averages replace the defaults once they have this many observations
+const MIN_SAMPLES = 5
+
+// NBA period lengths in game time, and the wall-clock length of an overtime period
+const PERIOD_SECONDS = 12 * 60
+const OVERTIME_PERIOD_SECONDS = 5 * 60
+const OVERTIME_WALL_MINUTES = 15
+
+const PLAYOFF_LABEL_PATTERN = /playoff|play-in|finals|conference|round/i
+
+export function getDurationFactors(game: Game): DurationFactors {
+  // NBA game ids: 004... are playoff games, 005... play-in games
+  const playoff = /^00[45]/.test(game.gameId) ||
+    PLAYOFF_LABEL_PATTERN.test(game.gameLabel) ||
+    PLAYOFF_LABEL_PATTERN.test(game.seriesText)
+  return {
+    league: 'NBA',
+    national: game.broadcasters.nationalBroadcasters.length > 0,
+    playoff
+  }
+}
+
+export function summarizeDurations(samples: DurationSample[]): DurationStat[] {
+  const groups = new Map<string, DurationStat>()
+  samples.forEach(sample => {
+    const key = `${sample.league}|${sample.national}|${sample.playoff}`
+    const stat = groups.get(key) ?? { league: sample.league, national: sample.national, playoff: sample.playoff, averageMinutes: 0, samples: 0 }
+    stat.averageMinutes = (stat.averageMinutes * stat.samples + sample.minutes) / (stat.samples + 1)
+    stat.samples++
+    groups.set(key, stat)
+  })
+  return Array.from(groups.values()).map(stat => ({ ...stat, averageMinutes: Math.round(stat.averageMinutes) }))
+}
+
+export function estimateDurationMinutes(factors: DurationFactors, stats: DurationStat[] = []) {
+  const exact = stats.find(stat =>
+    stat.league === factors.league &&
+    stat.national === factors.national &&
+    stat.playoff === factors.playoff
+  )
+  if (exact && exact.samples >= MIN_SAMPLES) return exact.averageMinutes
+
+  // Not enough games like this one - adjust the league-wide regular season baseline instead
+  const regular = stats.filter(stat => stat.league === factors.league && !stat.playoff)
+  const regularSamples = regular.reduce((sum, stat) => sum + stat.samples, 0)
+  const baseline = regularSamples >= MIN_SAMPLES
+    ? regular.reduce((sum, stat) => sum + stat.averageMinutes * stat.samples, 0) / regularSamples
+    : BASE_DURATION_MINUTES[factors.league] ?? FALLBACK_DURATION_MINUTES
+
+  return Math.round(
+    baseline +
+    (factors.national ? NATIONAL_EXTRA_MINUTES : 0) +
+    (factors.playoff ? PLAYOFF_EXTRA_MINUTES : 0)
+  )
+}
+
+export function estimateGameDurationMinutes(game: Game, stats: DurationStat[] = []) {
+  return estimateDurationMinutes(getDurationFactors(game), stats)
+}
+
+// "5:12" -> 312
+function parseGameClock(gameClock: string) {
+  const match = gameClock.match(/^(\d+):(\d{2})/)
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : 0
+}
+
+// End time from the live status: what's left on the clock at the pace the estimate implies.
+// Final games end at the observed time, or now if that wasn't seen.
+export function estimateLiveEndTime(game: Game, status: LiveGameStatus, durationMinutes: number, at: Date, endedAt?: Date): Date {
+  const start = new Date(game.gameDateTimeUTC)
+  const scheduledEnd = new Date(start.getTime() + durationMinutes * 60000)
+
+  if (status.gameStatus === 3) {
+    if (endedAt) return endedAt
+    return scheduledEnd < at ? scheduledEnd : at
+  }
+  if (status.gameStatus !== 2) return scheduledEnd
+
+  const clockSeconds = parseGameClock(status.gameClock)
+  let remainingMinutes: number
+  if (status.period > status.regulationPeriods) {
+    remainingMinutes = (clockSeconds / OVERTIME_PERIOD_SECONDS) * OVERTIME_WALL_MINUTES
+  } else {
+    const minutesPerPeriod = durationMinutes / status.regulationPeriods
+    const remainingPeriods = status.regulationPeriods - status.period + clockSeconds / PERIOD_SECONDS
+    remainingMinutes = remainingPeriods * minutesPerPeriod
+  }
+  return new Date(at.getTime() + remainingMinutes * 60000)
+}
+
+// Live end time when the scoreboard has one, otherwise start plus the estimated duration
+export function getGameEndTime(game: Game, stats: DurationStat[] = [], status?: LiveGameStatus): Date {
+  if (status?.estimatedEndTimeUTC) return new Date(status.estimatedEndTimeUTC)
+  return new Date(new Date(game.gameDateTimeUTC).getTime() + estimateGameDurationMinutes(game, stats) * 60000)
+}
+
+// 135 -> "2h 15m"
+export function formatDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
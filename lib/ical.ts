@@ -0,0 +1,161 @@
+// iCalendar (RFC 5545) for calendar apps: the schedule as one event per game, and a viewing plan
+// as one event per TV assignment. Served as subscribable feeds by /api/calendar.ics and attached
+// to weekly emails. Event UIDs are stable, so a calendar that refreshes the feed moves or removes
+// events instead of duplicating them.
+
+import { formatTunedBroadcaster, getBroadcasterToTune } from './channel-lineup'
+import { now } from './clock'
+import { PlannedGame, getPlannedGames } from './daily-digest'
+import { ChannelLineup, Game } from './domain'
+import { EmailWeekData } from './email-templates'
+import { DurationStat, getGameEndTime } from './game-duration'
+import { MailAttachment } from './mailer'
+
+const PRODUCT_ID = '-//Sports Scheduler//Viewing Plan//EN'
+const UID_DOMAIN = 'sports-scheduler'
+
+// How often subscribed calendars should refetch, for the clients that honor it
+const REFRESH_INTERVAL = 'PT1H'
+
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8'
+
+export interface CalendarEvent {
+  uid: string
+  summary: string
+  description: string
+  location: string
+  // Timed events; an all-day event on `date` (YYYY-MM-DD) while the start time is TBD
+  start: Date | null
+  end: Date | null
+  date: string
+}
+
+// 20250114T003000Z
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(text: string) {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+function foldLine(line: string) {
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const character of line) {
+    const bytes = Buffer.byteLength(character)
+    const limit = parts.length === 0 ? 75 : 74
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += character
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function formatEvent(event: CalendarEvent, stamp: string) {
+  const timing = event.start && event.end
+    ? [`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`]
+    : [`DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`]
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    ...timing,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    'END:VEVENT'
+  ]
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[]) {
+  const stamp = formatUtc(now())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap(event => formatEvent(event, stamp)),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// "LAL @ GSW (ESPN)"
+function formatGameTitle(game: Game, channelLineup: ChannelLineup) {
+  const broadcaster = getBroadcasterToTune(game.broadcasters, channelLineup)
+  return `${game.awayTeam.teamTricode} @ ${game.homeTeam.teamTricode}${broadcaster ? ` (${broadcaster.name})` : ''}`
+}
+
+function getGameEvent(game: Game, channelLineup: ChannelLineup, durationStats: DurationStat[]): Omit<CalendarEvent, 'uid' | 'summary'> {
+  const broadcaster = getBroadcasterToTune(game.broadcasters, channelLineup)
+  const start = new Date(game.gameDateTimeUTC)
+  const isTimed = !/\bTBD\b/i.test(game.gameStatusText) && !isNaN(start.getTime())
+  return {
+    description: [
+      `${game.awayTeam.teamCity} ${game.awayTeam.teamName} at ${game.homeTeam.teamCity} ${game.homeTeam.teamName}`,
+      broadcaster ? `Watch on ${formatTunedBroadcaster(broadcaster)}` : 'Broadcast TBD'
+    ].join('\n'),
+    location: [game.arenaName, game.arenaCity, game.arenaState].filter(Boolean).join(', '),
+    start: isTimed ? start : null,
+    end: isTimed ? getGameEndTime(game, durationStats) : null,
+    date: game.gameDateEst.slice(0, 10)
+  }
+}
+
+export function getScheduleEvents(games: Game[], channelLineup: ChannelLineup, durationStats: DurationStat[] = []): CalendarEvent[] {
+  return games.map(game => ({
+    ...getGameEvent(game, channelLineup, durationStats),
+    uid: `${game.gameId}@${UID_DOMAIN}`,
+    summary: formatGameTitle(game, channelLineup)
+  }))
+}
+
+// "TV 3: LAL @ GSW (ESPN)". Events are per venue, since two venues' TV 3s are different TVs.
+export function getPlanEvents(
+  venueId: string,
+  games: PlannedGame[],
+  tvs: Array<{ tvNumber: number; name: string }> | undefined,
+  channelLineup: ChannelLineup,
+  durationStats: DurationStat[] = []
+): CalendarEvent[] {
+  return games.map(game => {
+    const event = getGameEvent(game, channelLineup, durationStats)
+    const tvName = tvs?.find(tv => tv.tvNumber === game.tvAssignment)?.name
+    return {
+      ...event,
+      uid: `${venueId}-${game.gameId}-tv${game.tvAssignment}@${UID_DOMAIN}`,
+      summary: `TV ${game.tvAssignment}: ${formatGameTitle(game, channelLineup)}`,
+      description: tvName ? `${event.description}\nTV: ${tvName}` : event.description
+    }
+  })
+}
+
+// The week as an .ics attachment: TV assignments for a viewing plan, otherwise the games
+export function getWeekCalendarAttachment(
+  venueId: string,
+  weekData: EmailWeekData,
+  isOptimized: boolean,
+  channelLineup: ChannelLineup,
+  durationStats: DurationStat[] = []
+): MailAttachment {
+  const events = isOptimized
+    ? getPlanEvents(venueId, getPlannedGames(weekData.tvSchedule ?? {}), weekData.tvs, channelLineup, durationStats)
+    : getScheduleEvents(weekData.games, channelLineup, durationStats)
+  return {
+    filename: isOptimized ? 'viewing-plan.ics' : 'schedule.ics',
+    content: buildCalendar(isOptimized ? 'Viewing plan' : 'NBA schedule', events),
+    contentType: CALENDAR_CONTENT_TYPE
+  }
+}
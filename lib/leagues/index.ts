@@ -0,0 +1,13 @@
+import { nbaAdapter } from './nba'
+import { AVAILABLE_SPORTS } from './sports'
+import type { LeagueAdapter } from './types'
+
+export type { LeagueAdapter, SportsEvent } from './types'
+
+const LEAGUE_ADAPTERS: LeagueAdapter[] = [nbaAdapter]
+
+// Adapters for the given sports interests. No interests selected means every available sport.
+export function getAdaptersForSports(sportsInterests: string[]) {
+  const sports = sportsInterests.length > 0 ? sportsInterests : AVAILABLE_SPORTS
+  return LEAGUE_ADAPTERS.filter(adapter => sports.includes(adapter.sport))
+}
@@ -0,0 +1,71 @@
+import type { Broadcasters, Game, Team } from '../domain'
+import { getDurationStats } from '../duration-history'
+import { DurationStat, estimateGameDurationMinutes } from '../game-duration'
+import { getNbaSchedule } from '../nba-schedule'
+import { filterGameDates } from '../schedule-filters'
+import type { BroadcastMedia, BroadcastScope, EventStatus, LeagueAdapter, SportsEvent } from './types'
+
+const STATUS_BY_CODE: Record<number, EventStatus> = {
+  1: 'scheduled',
+  2: 'live',
+  3: 'final'
+}
+
+// CDN broadcaster list keys -> scope and media
+const BROADCASTER_LISTS: Array<{ key: keyof Broadcasters; scope: BroadcastScope; media: BroadcastMedia }> = [
+  { key: 'nationalBroadcasters', scope: 'national', media: 'tv' },
+  { key: 'nationalRadioBroadcasters', scope: 'national', media: 'radio' },
+  { key: 'nationalOttBroadcasters', scope: 'national', media: 'ott' },
+  { key: 'homeTvBroadcasters', scope: 'home', media: 'tv' },
+  { key: 'homeRadioBroadcasters', scope: 'home', media: 'radio' },
+  { key: 'homeOttBroadcasters', scope: 'home', media: 'ott' },
+  { key: 'awayTvBroadcasters', scope: 'away', media: 'tv' },
+  { key: 'awayRadioBroadcasters', scope: 'away', media: 'radio' },
+  { key: 'awayOttBroadcasters', scope: 'away', media: 'ott' }
+]
+
+function toSportsEvent(game: Game, durationStats: DurationStat[]): SportsEvent {
+  const broadcasters = BROADCASTER_LISTS.flatMap(({ key, scope, media }) =>
+    game.broadcasters[key]
+      .filter(broadcaster => broadcaster.broadcasterDisplay && broadcaster.broadcasterDisplay !== 'TBD')
+      .map(broadcaster => ({ name: broadcaster.broadcasterDisplay, scope, media }))
+  )
+
+  const participant = (team: Team, isHome: boolean) => ({
+    id: String(team.teamId),
+    name: `${team.teamCity} ${team.teamName}`,
+    shortName: team.teamTricode,
+    isHome,
+    record: `${team.wins}-${team.losses}`,
+    score: game.gameStatus === 1 ? undefined : team.score
+  })
+
+  return {
+    id: `nba-${game.gameId}`,
+    league: 'NBA',
+    sport: 'Basketball',
+    status: STATUS_BY_CODE[game.gameStatus] ?? 'scheduled',
+    label: game.gameLabel,
+    startTime: game.gameDateTimeUTC,
+    estimatedDurationMinutes: estimateGameDurationMinutes(game, durationStats),
+    participants: [participant(game.awayTeam, false), participant(game.homeTeam, true)],
+    venue: {
+      name: game.arenaName,
+      city: game.arenaCity,
+      state: game.arenaState
+    },
+    broadcasters
+  }
+}
+
+export const nbaAdapter: LeagueAdapter = {
+  id: 'nba',
+  league: 'NBA',
+  sport: 'Basketball',
+  async fetchEvents(range) {
+    const [{ data }, durationStats] = await Promise.all([getNbaSchedule(), getDurationStats()])
+    return filterGameDates(data.schedule.leagueSchedule.gameDates, range)
+      .flatMap(gameDate => gameDate.games)
+      .map(game => toSportsEvent(game, durationStats))
+  }
+}
@@ -0,0 +1,9 @@
+// Sports shown in preferences. A sport is selectable once a league adapter exists for it.
+
+export const SPORTS = ['Basketball', 'Football', 'Baseball', 'Hockey', 'Soccer', 'Tennis']
+
+export const AVAILABLE_SPORTS = ['Basketball']
+
+export function isSportAvailable(sport: string) {
+  return AVAILABLE_SPORTS.includes(sport)
+}
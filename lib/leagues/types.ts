@@ -0,0 +1,53 @@
+// Sport-agnostic event model that every league adapter normalizes into
+
+export type EventStatus = 'scheduled' | 'live' | 'final'
+
+export type BroadcastScope = 'national' | 'home' | 'away'
+
+export type BroadcastMedia = 'tv' | 'radio' | 'ott'
+
+export interface EventParticipant {
+  id: string
+  name: string
+  shortName: string
+  isHome: boolean
+  record?: string
+  score?: number
+}
+
+export interface EventBroadcaster {
+  name: string
+  scope: BroadcastScope
+  media: BroadcastMedia
+}
+
+export interface EventVenue {
+  name: string
+  city: string
+  state: string
+}
+
+export interface SportsEvent {
+  id: string
+  league: string
+  sport: string
+  status: EventStatus
+  label: string
+  startTime: string // ISO 8601, UTC
+  estimatedDurationMinutes: number
+  participants: EventParticipant[]
+  venue: EventVenue
+  broadcasters: EventBroadcaster[]
+}
+
+export interface EventRange {
+  from?: string // YYYY-MM-DD
+  to?: string // YYYY-MM-DD
+}
+
+export interface LeagueAdapter {
+  id: string
+  league: string
+  sport: string
+  fetchEvents(range: EventRange): Promise<SportsEvent[]>
+}
@@ -0,0 +1,181 @@
+// Live game status for today's games. The live source polls the NBA CDN scoreboard;
+// fixture and snapshot sources simulate progress from the schedule and the server clock.
+
+import { now, todayKey } from './clock'
+import type { Game, LiveGameStatus } from './domain'
+import { getDurationStats, getObservedEndTimes, recordLiveStatuses } from './duration-history'
+import { DurationStat, estimateGameDurationMinutes, estimateLiveEndTime } from './game-duration'
+import { getNbaSchedule, getScheduleSourceName } from './nba-schedule'
+import { toDateKey } from './schedule-filters'
+import { CachedResult, createUpstreamCache } from './upstream-cache'
+
+const REGULATION_PERIODS = 4
+
+const PERIOD_LENGTH_SECONDS = 12 * 60
+
+// How often clients should poll
+const LIVE_POLL_SECONDS = 15
+const SCHEDULED_POLL_SECONDS = 60
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// ISO 8601 duration "PT05M12.00S" -> "5:12"
+function formatGameClock(value: unknown) {
+  if (typeof value !== 'string') return ''
+  const match = value.match(/^PT(\d+)M(\d+)(?:\.\d+)?S$/)
+  if (!match) return ''
+  return `${parseInt(match[1], 10)}:${match[2].padStart(2, '0')}`
+}
+
+function teamScore(team: unknown) {
+  return isRecord(team) && typeof team.score === 'number' ? team.score : 0
+}
+
+// Games that don't have an id and status are skipped; a payload without a games list throws
+export function parseScoreboard(body: unknown): LiveGameStatus[] {
+  if (!isRecord(body) || !isRecord(body.scoreboard) || !Array.isArray(body.scoreboard.games)) {
+    throw new Error('Scoreboard payload is missing scoreboard.games')
+  }
+
+  return body.scoreboard.games.flatMap((game: unknown) => {
+    if (!isRecord(game) || typeof game.gameId !== 'string' || typeof game.gameStatus !== 'number') {
+      return []
+    }
+    return [{
+      gameId: game.gameId,
+      gameStatus: game.gameStatus,
+      gameStatusText: typeof game.gameStatusText === 'string' ? game.gameStatusText.trim() : '',
+      period: typeof game.period === 'number' ? game.period : 0,
+      gameClock: formatGameClock(game.gameClock),
+      regulationPeriods: typeof game.regulationPeriods === 'number' ? game.regulationPeriods : REGULATION_PERIODS,
+      homeScore: teamScore(game.homeTeam),
+      awayScore: teamScore(game.awayTeam)
+    }]
+  })
+}
+
+const scoreboardCache = createUpstreamCache<LiveGameStatus[]>({
+  key: 'nba-scoreboard',
+  url: 'https://cdn.nba.com/static/json/liveData/scoreboard/todaysScoreboard_00.json',
+  ttlMs: 15 * 1000,
+  staleWhileRevalidateMs: 45 * 1000,
+  timeoutMs: 5000,
+  parse: parseScoreboard
+})
+
+// Stable pseudo-random number in [0, 1) so simulated scores don't jump between polls
+function seededFraction(seed: string) {
+  let hash = 0
+  for (const char of seed) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return (Math.abs(hash) % 1000) / 1000
+}
+
+// Simulated games run exactly as long as their estimated duration
+function simulateStatus(game: Game, at: Date, durationMinutes: number): LiveGameStatus {
+  const base = {
+    gameId: game.gameId,
+    regulationPeriods: REGULATION_PERIODS,
+    homeScore: game.homeTeam.score,
+    awayScore: game.awayTeam.score
+  }
+  // Recorded snapshots may already carry a result
+  if (game.gameStatus === 3) {
+    return { ...base, gameStatus: 3, gameStatusText: 'Final', period: REGULATION_PERIODS, gameClock: '' }
+  }
+
+  const elapsed = (at.getTime() - new Date(game.gameDateTimeUTC).getTime()) / 60000
+  if (isNaN(elapsed) || elapsed < 0) {
+    return { ...base, gameStatus: 1, gameStatusText: game.gameStatusText, period: 0, gameClock: '' }
+  }
+
+  const progress = Math.min(1, elapsed / durationMinutes)
+  const finalHome = 95 + Math.round(seededFraction(`${game.gameId}-home`) * 30)
+  const finalAway = 95 + Math.round(seededFraction(`${game.gameId}-away`) * 30)
+  const scores = {
+    homeScore: Math.round(finalHome * progress),
+    // Never end a simulated game tied
+    awayScore: Math.round((finalAway === finalHome ? finalAway + 2 : finalAway) * progress)
+  }
+
+  if (progress === 1) {
+    return { ...base, ...scores, gameStatus: 3, gameStatusText: 'Final', period: REGULATION_PERIODS, gameClock: '' }
+  }
+
+  const periodProgress = progress * REGULATION_PERIODS
+  const period = Math.floor(periodProgress) + 1
+  const remaining = Math.round((1 - (periodProgress % 1)) * PERIOD_LENGTH_SECONDS)
+  const gameClock = `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}`
+  return { ...base, ...scores, gameStatus: 2, gameStatusText: `Q${period} ${gameClock}`, period, gameClock }
+}
+
+async function getTodaysGames() {
+  const schedule = await getNbaSchedule()
+  const today = todayKey()
+  return schedule.data.schedule.leagueSchedule.gameDates
+    .filter(gameDate => toDateKey(gameDate.gameDate) === today)
+    .flatMap(gameDate => gameDate.games)
+}
+
+// The scoreboard has no end times - estimate them from the schedule entry and duration history
+async function withEndTimes(statuses: LiveGameStatus[], games: Game[], stats: DurationStat[], at: Date) {
+  const gamesById = new Map(games.map(game => [game.gameId, game]))
+  const observedEndTimes = await getObservedEndTimes()
+
+  return statuses.map(status => {
+    const game = gamesById.get(status.gameId)
+    if (!game) return status
+    const observedEnd = observedEndTimes.get(status.gameId)
+    const endTime = estimateLiveEndTime(
+      game,
+      status,
+      estimateGameDurationMinutes(game, stats),
+      at,
+      observedEnd ? new Date(observedEnd) : undefined
+    )
+    return { ...status, estimatedEndTimeUTC: endTime.toISOString() }
+  })
+}
+
+export async function getLiveStatuses(): Promise<CachedResult<LiveGameStatus[]>> {
+  const stats = await getDurationStats()
+  if (getScheduleSourceName() !== 'live') {
+    const at = now()
+    const games = await getTodaysGames()
+    const statuses = games.map(game => simulateStatus(game, at, estimateGameDurationMinutes(game, stats)))
+    return {
+      data: await withEndTimes(statuses, games, stats, at),
+      status: 'hit',
+      fetchedAt: at.toISOString(),
+      ageSeconds: 0
+    }
+  }
+
+  const result = await scoreboardCache.get()
+  // Live scores are still useful without the schedule, just without end times
+  let games: Game[] = []
+  try {
+    games = await getTodaysGames()
+  } catch (error) {
+    console.error('Failed to load schedule for live end times:', error)
+  }
+
+  const observedAt = new Date(result.fetchedAt)
+  try {
+    await recordLiveStatuses(result.data, new Map(games.map(game => [game.gameId, game])), observedAt)
+  } catch (error) {
+    console.error('Failed to record game durations:', error)
+  }
+
+  return { ...result, data: await withEndTimes(result.data, games, stats, observedAt) }
+}
+
+// Seconds until clients should poll again, or null once every game today is over
+export function getPollAfterSeconds(statuses: LiveGameStatus[]) {
+  if (statuses.some(status => status.gameStatus === 2)) return LIVE_POLL_SECONDS
+  if (statuses.some(status => status.gameStatus === 1)) return SCHEDULED_POLL_SECONDS
+  return null
+}
@@ -0,0 +1,37 @@
+// Display helpers for live game status, shared by the calendar, tv-day and list views
+
+import type { LiveGameStatus } from './domain'
+
+export function isInProgress(status: LiveGameStatus) {
+  return status.gameStatus === 2
+}
+
+export function isFinal(status: LiveGameStatus) {
+  return status.gameStatus === 3
+}
+
+export function isOvertime(status: LiveGameStatus) {
+  return status.period > status.regulationPeriods
+}
+
+// "Q3", "OT", "2OT"
+export function formatPeriod(status: LiveGameStatus) {
+  if (!isOvertime(status)) return `Q${status.period}`
+  const overtime = status.period - status.regulationPeriods
+  return overtime === 1 ? 'OT' : `${overtime}OT`
+}
+
+export function formatLiveStatus(status: LiveGameStatus) {
+  if (isFinal(status)) return isOvertime(status) ? `Final/${formatPeriod(status)}` : 'Final'
+  if (!isInProgress(status)) return status.gameStatusText
+  if (!status.gameClock || status.gameClock === '0:00') {
+    if (status.period === status.regulationPeriods / 2) return 'Halftime'
+    return `End of ${formatPeriod(status)}`
+  }
+  return `${formatPeriod(status)} ${status.gameClock}`
+}
+
+// Away score first, matching the "AWAY @ HOME" layout used everywhere
+export function formatScore(status: LiveGameStatus) {
+  return `${status.awayScore}-${status.homeScore}`
+}
@@ -0,0 +1,85 @@
+// Outgoing email. Sent through Resend when RESEND_API_KEY is set; otherwise, or with
+// MAIL_TRANSPORT=sink, messages are kept in the local mail sink (.data/mail-sink.json) instead
+// so the scheduler can be run and checked without sending anything.
+
+import { Resend } from 'resend'
+import { now } from './clock'
+import { readDocument, writeDocument } from './storage'
+
+// Text attachments only, e.g. an .ics calendar
+export interface MailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
+export interface MailMessage {
+  to: string[]
+  subject: string
+  html: string
+  headers?: Record<string, string>
+  attachments?: MailAttachment[]
+}
+
+export interface SinkedMessage extends MailMessage {
+  id: string
+  sentAt: string
+}
+
+export type MailTransport = 'resend' | 'sink'
+
+const FROM_ADDRESS = 'Sports Schedule <onboarding@resend.dev>'
+const REPLY_TO_ADDRESS = 'onboarding@resend.dev'
+
+const SINK_DOCUMENT_NAME = 'mail-sink'
+
+// Keep the most recent messages only
+const MAX_SINKED_MESSAGES = 100
+
+export function getMailTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'sink') return 'sink'
+  return process.env.RESEND_API_KEY ? 'resend' : 'sink'
+}
+
+export async function readMailSink(): Promise<SinkedMessage[]> {
+  return (await readDocument<{ messages: SinkedMessage[] }>(SINK_DOCUMENT_NAME, { messages: [] })).messages
+}
+
+// Sink writes run one at a time so concurrent sends don't drop each other's messages
+let pendingSink: Promise<unknown> = Promise.resolve()
+
+function sinkMessage(message: MailMessage): Promise<string> {
+  const run = pendingSink.catch(() => {}).then(async () => {
+    const sentAt = now()
+    const sinked: SinkedMessage = { ...message, id: `sink-${sentAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`, sentAt: sentAt.toISOString() }
+    const messages = await readMailSink()
+    await writeDocument(SINK_DOCUMENT_NAME, { messages: [...messages, sinked].slice(-MAX_SINKED_MESSAGES) })
+    console.log(`Mail sink: "${message.subject}" to ${message.to.join(', ')}`)
+    return sinked.id
+  })
+  pendingSink = run
+  return run
+}
+
+// The message id; throws when the message couldn't be sent
+export async function sendMail(message: MailMessage): Promise<string> {
+  if (getMailTransport() === 'sink') {
+    return sinkMessage(message)
+  }
+
+  const resend = new Resend(process.env.RESEND_API_KEY)
+  const { data, error } = await resend.emails.send({
+    from: FROM_ADDRESS,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    headers: message.headers,
+    attachments: message.attachments?.map(({ filename, content, contentType }) => ({ filename, content: Buffer.from(content), contentType })),
+    replyTo: REPLY_TO_ADDRESS,
+  })
+
+  if (error || !data) {
+    throw new Error(`Resend error: ${error?.message ?? 'no message id returned'}`)
+  }
+  return data.id
+}
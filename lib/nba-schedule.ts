@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { now } from './clock'
+import { validateSchedulePayload, ValidatedSchedule } from './schedule-schema'
+import { CachedResult, createUpstreamCache } from './upstream-cache'
+
+// SCHEDULE_SOURCE picks where the schedule comes from:
+//   live      - the NBA CDN (default)
+//   fixture   - a checked-in payload, SCHEDULE_FIXTURE_PATH
+//   snapshots - recorded CDN payloads in SCHEDULE_SNAPSHOT_DIR (see `npm run record:schedule`)
+export type ScheduleSourceName = 'live' | 'fixture' | 'snapshots'
+
+const SOURCE_NAMES: ScheduleSourceName[] = ['live', 'fixture', 'snapshots']
+
+const DEFAULT_FIXTURE_PATH = 'fixtures/nba-schedule.json'
+const DEFAULT_SNAPSHOT_DIR = 'fixtures/snapshots'
+
+// scheduleLeagueV2-2025-01-12T14-00-00Z.json - the recording time, with dashes for colons
+const SNAPSHOT_NAME_PATTERN = /^scheduleLeagueV2-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})Z\.json$/
+
+// Validated on every refresh - a payload that fails validation never replaces the last good snapshot
+const scheduleCache = createUpstreamCache<ValidatedSchedule>({
+  key: 'nba-schedule',
+  url: 'https://cdn.nba.com/static/json/staticData/scheduleLeagueV2.json',
+  ttlMs: 5 * 60 * 1000,
+  staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+  parse: validateSchedulePayload
+})
+
+// Parsed files keyed by path, re-read when the file changes on disk
+const fileCache = new Map<string, { mtimeMs: number; data: ValidatedSchedule }>()
+
+export function getScheduleSourceName(): ScheduleSourceName {
+  const value = (process.env.SCHEDULE_SOURCE || 'live').trim().toLowerCase()
+  if (SOURCE_NAMES.includes(value as ScheduleSourceName)) {
+    return value as ScheduleSourceName
+  }
+  console.error(`Unknown SCHEDULE_SOURCE "${value}", falling back to live`)
+  return 'live'
+}
+
+async function readScheduleFile(filePath: string): Promise<ValidatedSchedule> {
+  const { mtimeMs } = await fs.stat(filePath)
+  const cached = fileCache.get(filePath)
+  if (cached && cached.mtimeMs === mtimeMs) return cached.data
+
+  const data = validateSchedulePayload(JSON.parse(await fs.readFile(filePath, 'utf8')))
+  fileCache.set(filePath, { mtimeMs, data })
+  return data
+}
+
+// Recorded payloads are served as-is: their age is measured from meta.time against the (possibly frozen) clock
+function toFileResult(data: ValidatedSchedule): CachedResult<ValidatedSchedule> {
+  const recordedAt = new Date(data.schedule.meta.time)
+  const fetchedAt = isNaN(recordedAt.getTime()) ? now() : recordedAt
+  return {
+    data,
+    status: 'hit',
+    fetchedAt: fetchedAt.toISOString(),
+    ageSeconds: Math.max(0, Math.round((now().getTime() - fetchedAt.getTime()) / 1000))
+  }
+}
+
+async function getFixtureSchedule() {
+  const filePath = path.resolve(process.cwd(), process.env.SCHEDULE_FIXTURE_PATH || DEFAULT_FIXTURE_PATH)
+  return toFileResult(await readScheduleFile(filePath))
+}
+
+// The latest snapshot recorded on or before the clock, so a frozen clock replays the schedule
+// as it looked that day. Falls back to the oldest snapshot when the clock predates them all.
+async function getSnapshotSchedule() {
+  const dir = path.resolve(process.cwd(), process.env.SCHEDULE_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR)
+  const snapshots = (await fs.readdir(dir))
+    .flatMap(name => {
+      const match = name.match(SNAPSHOT_NAME_PATTERN)
+      if (!match) return []
+      const [, date, hours, minutes, seconds] = match
+      return [{ name, recordedAt: new Date(`${date}T${hours}:${minutes}:${seconds}Z`).getTime() }]
+    })
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+
+  if (snapshots.length === 0) {
+    throw new Error(`No schedule snapshots found in ${dir}`)
+  }
+
+  const cutoff = now().getTime()
+  const snapshot = snapshots.filter(candidate => candidate.recordedAt <= cutoff).pop() ?? snapshots[0]
+  return toFileResult(await readScheduleFile(path.join(dir, snapshot.name)))
+}
+
+export function getNbaSchedule(): Promise<CachedResult<ValidatedSchedule>> {
+  switch (getScheduleSourceName()) {
+    case 'fixture':
+      return getFixtureSchedule()
+    case 'snapshots':
+      return getSnapshotSchedule()
+    default:
+      return scheduleCache.get()
+  }
+}
@@ -0,0 +1,98 @@
+// Sends a schedule, plan or confirmation message to a recipient on any channel. A Notification
+// carries every rendering of the message; each channel validates its own addresses and sends the
+// rendering it can show - email the subject and HTML (lib/mailer.ts), text messages the plain-text
+// lines split into 160-character segments (lib/sms.ts).
+
+import { DailyDigest, formatDigestTextLines } from './daily-digest'
+import { ChannelLineup, NotificationChannelName } from './domain'
+import { EmailFooterLinks, EmailWeekData, buildDigestEmail, buildScheduleEmail } from './email-templates'
+import { MailAttachment, sendMail } from './mailer'
+import { normalizePhoneNumber, sendSms, splitIntoSmsSegments } from './sms'
+import { formatPlanTextLines, formatScheduleTextLines } from './text-templates'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export interface Notification {
+  subject: string
+  html: string
+  textLines: string[]
+  // Email only, e.g. List-Unsubscribe
+  headers?: Record<string, string>
+  attachments?: MailAttachment[]
+}
+
+export interface NotificationRecipient {
+  channel: NotificationChannelName
+  address: string
+}
+
+export interface NotificationChannel {
+  // The address as stored and sent to, or null when it isn't one this channel can use
+  normalizeAddress(value: string): string | null
+  // Message ids, one per email or text message sent; throws when sending failed
+  send(address: string, notification: Notification): Promise<string[]>
+}
+
+const emailChannel: NotificationChannel = {
+  normalizeAddress(value) {
+    const address = value.trim().toLowerCase()
+    return EMAIL_PATTERN.test(address) ? address : null
+  },
+  async send(address, notification) {
+    const { subject, html, headers, attachments } = notification
+    return [await sendMail({ to: [address], subject, html, headers, attachments })]
+  }
+}
+
+const smsChannel: NotificationChannel = {
+  normalizeAddress: normalizePhoneNumber,
+  async send(address, notification) {
+    // In order, one at a time, so a long plan arrives as numbered
+    const ids: string[] = []
+    for (const body of splitIntoSmsSegments(notification.textLines)) {
+      ids.push(await sendSms({ to: address, body }))
+    }
+    return ids
+  }
+}
+
+const CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  email: emailChannel,
+  sms: smsChannel
+}
+
+export function getNotificationChannel(name: NotificationChannelName) {
+  return CHANNELS[name]
+}
+
+export function sendNotification(recipient: NotificationRecipient, notification: Notification) {
+  return getNotificationChannel(recipient.channel).send(recipient.address, notification)
+}
+
+// Text messages can't carry the email footer, so the manage link goes on the last line
+function formatTextTrailer(links?: EmailFooterLinks) {
+  return links ? [`Manage or stop: ${links.manageUrl}`] : []
+}
+
+export function buildScheduleNotification(
+  weekData: EmailWeekData,
+  isOptimized: boolean,
+  timeZone: string,
+  channelLineup: ChannelLineup,
+  links?: EmailFooterLinks
+): Notification & { weekRange: string } {
+  const textLines = isOptimized
+    ? formatPlanTextLines(weekData, timeZone, channelLineup)
+    : formatScheduleTextLines(weekData, timeZone, channelLineup)
+  return {
+    ...buildScheduleEmail(weekData, isOptimized, timeZone, channelLineup, links),
+    textLines: [...textLines, ...formatTextTrailer(links)]
+  }
+}
+
+export function buildDigestNotification(digest: DailyDigest, timeZone: string, links?: EmailFooterLinks): Notification {
+  return {
+    ...buildDigestEmail(digest, timeZone, links),
+    textLines: [...formatDigestTextLines(digest, timeZone), ...formatTextTrailer(links)]
+  }
+}
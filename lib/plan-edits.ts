@@ -0,0 +1,52 @@
+// Hand edits to a generated TV plan. A game keeps its own time; a move only changes which TV shows
+// it, and is refused when the game would overlap another one on that TV. Runs on the client.
+
+import { OptimizedGame } from './domain'
+import { DurationStat, getGameEndTime } from './game-duration'
+
+export interface PlanMove {
+  gameId: string
+  fromTv: number
+  toTv: number
+}
+
+function getWindow(game: OptimizedGame, durationStats?: DurationStat[]) {
+  return { start: new Date(game.gameDateTimeUTC).getTime(), end: getGameEndTime(game, durationStats).getTime() }
+}
+
+// Why the move isn't allowed, or null when it is
+export function findMoveConflict(games: OptimizedGame[], move: PlanMove, durationStats?: DurationStat[]) {
+  const game = games.find(candidate => candidate.gameId === move.gameId && candidate.tvAssignment === move.fromTv)
+  if (!game) return `Game is no longer on TV ${move.fromTv}`
+  if (move.fromTv === move.toTv) return null
+
+  const onTarget = games.filter(candidate => candidate.tvAssignment === move.toTv)
+  if (onTarget.some(candidate => candidate.gameId === move.gameId)) return `Already on TV ${move.toTv}`
+
+  const window = getWindow(game, durationStats)
+  const clash = onTarget.find(other => {
+    const otherWindow = getWindow(other, durationStats)
+    return window.start < otherWindow.end && otherWindow.start < window.end
+  })
+  return clash
+    ? `Overlaps ${clash.awayTeam.teamTricode} @ ${clash.homeTeam.teamTricode}${clash.assignedTimeSlot ? ` (${clash.assignedTimeSlot})` : ''}`
+    : null
+}
+
+// Check with findMoveConflict first
+export function moveGame(games: OptimizedGame[], move: PlanMove): OptimizedGame[] {
+  if (move.fromTv === move.toTv) return games
+  return games.map(game => game.gameId === move.gameId && game.tvAssignment === move.fromTv
+    ? { ...game, tvAssignment: move.toTv, pinned: false, reasoning: `Moved by hand from TV ${move.fromTv}` }
+    : game
+  )
+}
+
+// Every TV gets an entry, empty or not
+export function buildTvSchedule(games: OptimizedGame[], tvNumbers: number[]) {
+  const tvSchedule: Record<number, OptimizedGame[]> = {}
+  tvNumbers.forEach(tvNumber => {
+    tvSchedule[tvNumber] = games.filter(game => game.tvAssignment === tvNumber)
+  })
+  return tvSchedule
+}
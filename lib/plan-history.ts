@@ -0,0 +1,68 @@
+// Client-safe helpers for saved plan versions (lib/plan-store.ts): the week a plan is saved under
+// and what changed between two versions.
+
+import { OptimizedGame, ViewingPlan } from './domain'
+
+export type PlanChangeKind = 'moved' | 'added' | 'removed'
+
+export interface PlanChange {
+  gameId: string
+  kind: PlanChangeKind
+  // "BOS @ NYK"
+  matchup: string
+  gameDateTimeUTC: string
+  // TV numbers the game is on, in order; empty when not on the plan
+  fromTvs: number[]
+  toTvs: number[]
+  fromPriority: number | null
+  toPriority: number | null
+}
+
+// Plans are saved under the Sunday their week starts. Takes any date in the week as YYYY-MM-DD, or a
+// date-time starting with one, and works on the calendar date alone so the browser's and the server's
+// time zones don't matter.
+export function getPlanWeekKey(date: string) {
+  const day = new Date(`${date.slice(0, 10)}T12:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - day.getUTCDay())
+  return day.toISOString().slice(0, 10)
+}
+
+function groupByGame(games: OptimizedGame[]) {
+  const byGame = new Map<string, OptimizedGame[]>()
+  games.forEach(game => {
+    byGame.set(game.gameId, [...(byGame.get(game.gameId) ?? []), game])
+  })
+  return byGame
+}
+
+function getTvNumbers(entries: OptimizedGame[] | undefined) {
+  return (entries ?? []).map(entry => entry.tvAssignment).sort((a, b) => a - b)
+}
+
+// Games whose TVs changed, in game time order. A game that only changed priority isn't listed.
+export function diffPlans(from: Pick<ViewingPlan, 'optimizedGames'>, to: Pick<ViewingPlan, 'optimizedGames'>): PlanChange[] {
+  const fromGames = groupByGame(from.optimizedGames)
+  const toGames = groupByGame(to.optimizedGames)
+  const gameIds = new Set([...fromGames.keys(), ...toGames.keys()])
+
+  const changes: PlanChange[] = []
+  gameIds.forEach(gameId => {
+    const fromTvs = getTvNumbers(fromGames.get(gameId))
+    const toTvs = getTvNumbers(toGames.get(gameId))
+    if (fromTvs.join() === toTvs.join()) return
+
+    const game = (toGames.get(gameId) ?? fromGames.get(gameId))![0]
+    changes.push({
+      gameId,
+      kind: fromTvs.length === 0 ? 'added' : toTvs.length === 0 ? 'removed' : 'moved',
+      matchup: `${game.awayTeam.teamTricode} @ ${game.homeTeam.teamTricode}`,
+      gameDateTimeUTC: game.gameDateTimeUTC,
+      fromTvs,
+      toTvs,
+      fromPriority: fromGames.get(gameId)?.[0].priority ?? null,
+      toPriority: toGames.get(gameId)?.[0].priority ?? null
+    })
+  })
+
+  return changes.sort((a, b) => a.gameDateTimeUTC.localeCompare(b.gameDateTimeUTC) || a.gameId.localeCompare(b.gameId))
+}
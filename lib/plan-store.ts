@@ -0,0 +1,83 @@
+// Saved viewing plans: one document per venue and week holding its versions, oldest first.
+// Version numbers keep counting up after old versions are dropped, so a number always means the
+// same plan.
+
+import { now } from './clock'
+import { PlanVersion, PlanVersionSummary, isValidVenueId } from './domain'
+import { readDocument, writeDocument } from './storage'
+
+// Older versions are dropped past this
+const MAX_VERSIONS = 20
+
+interface PlanDocument {
+  versions: PlanVersion[]
+}
+
+// Ends up in a file name, like the venue id
+export function isValidWeekKey(week: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(week)
+}
+
+// Whoever generated or saved a version, as they typed it
+export function getAuthorName(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : 'Unknown'
+}
+
+function getDocumentName(venueId: string, week: string) {
+  return `plans-${venueId}-${week}`
+}
+
+function readPlans(venueId: string, week: string) {
+  return readDocument<PlanDocument>(getDocumentName(venueId, week), { versions: [] })
+}
+
+function summarize({ version, createdAt, generatedBy, producer, basedOn }: PlanVersion): PlanVersionSummary {
+  return { version, createdAt, generatedBy, producer, basedOn }
+}
+
+// Newest first
+export async function listPlanVersions(venueId: string, week: string): Promise<PlanVersionSummary[]> {
+  const { versions } = await readPlans(venueId, week)
+  return versions.map(summarize).reverse()
+}
+
+// The latest version when no number is given
+export async function getPlanVersion(venueId: string, week: string, version?: number): Promise<PlanVersion | null> {
+  const { versions } = await readPlans(venueId, week)
+  if (version === undefined) return versions[versions.length - 1] ?? null
+  return versions.find(entry => entry.version === version) ?? null
+}
+
+// Saves to one document run one at a time so two saves never get the same number
+const pendingSaves = new Map<string, Promise<unknown>>()
+
+export function savePlanVersion(
+  venueId: string,
+  week: string,
+  entry: Omit<PlanVersion, 'version' | 'createdAt'>
+): Promise<PlanVersion> {
+  if (!isValidVenueId(venueId) || !isValidWeekKey(week)) {
+    return Promise.reject(new Error(`Invalid venue "${venueId}" or week "${week}"`))
+  }
+
+  const name = getDocumentName(venueId, week)
+  const previous = pendingSaves.get(name) ?? Promise.resolve()
+
+  const save = previous.catch(() => {}).then(async () => {
+    const document = await readPlans(venueId, week)
+    const latest = document.versions[document.versions.length - 1]
+    const saved: PlanVersion = {
+      ...entry,
+      version: (latest?.version ?? 0) + 1,
+      createdAt: now().toISOString()
+    }
+    await writeDocument(name, { versions: [...document.versions, saved].slice(-MAX_VERSIONS) })
+    return saved
+  })
+
+  pendingSaves.set(name, save)
+  save.finally(() => {
+    if (pendingSaves.get(name) === save) pendingSaves.delete(name)
+  }).catch(() => {})
+  return save
+}
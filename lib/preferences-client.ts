@@ -0,0 +1,65 @@
+// Browser side of the venue preferences API (/api/preferences). The only thing a device keeps for
+// itself is which venue it plans for.
+
+import { DEFAULT_VENUE_ID, UserPreferences, isUserPreferences, isValidVenueId } from './domain'
+
+export const SELECTED_VENUE_KEY = 'sports-scheduler-venue'
+
+// Fired on window after this device saves preferences or switches venue
+export const PREFERENCES_UPDATED_EVENT = 'preferencesUpdated'
+
+// Where preferences lived before they moved to the server
+const LEGACY_PREFERENCES_KEY = 'sports-scheduler-user-preferences'
+
+export function getSelectedVenueId() {
+  const stored = localStorage.getItem(SELECTED_VENUE_KEY)
+  return stored && isValidVenueId(stored) ? stored : DEFAULT_VENUE_ID
+}
+
+export function selectVenue(venueId: string) {
+  localStorage.setItem(SELECTED_VENUE_KEY, venueId)
+  window.dispatchEvent(new CustomEvent(PREFERENCES_UPDATED_EVENT))
+}
+
+export async function savePreferences(venueId: string, preferences: UserPreferences) {
+  const response = await fetch('/api/preferences', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ venueId, preferences })
+  })
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}))
+    throw new Error(result.error || 'Failed to save preferences')
+  }
+}
+
+// null when the venue has none saved. A browser that still has preferences from before they moved
+// to the server uploads them to the default venue once.
+export async function loadPreferences(venueId: string): Promise<UserPreferences | null> {
+  const response = await fetch(`/api/preferences?venue=${venueId}`)
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load preferences')
+  }
+  if (result.preferences || venueId !== DEFAULT_VENUE_ID) return result.preferences
+
+  const legacy = localStorage.getItem(LEGACY_PREFERENCES_KEY)
+  if (!legacy) return null
+
+  let preferences: unknown = null
+  try {
+    preferences = JSON.parse(legacy)
+  } catch {
+    // Dropped below like any other unusable value
+  }
+  if (!isUserPreferences(preferences)) {
+    localStorage.removeItem(LEGACY_PREFERENCES_KEY)
+    return null
+  }
+
+  await savePreferences(venueId, preferences)
+  localStorage.removeItem(LEGACY_PREFERENCES_KEY)
+  return preferences
+}
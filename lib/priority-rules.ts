@@ -0,0 +1,152 @@
+// Evaluates a venue's priority rules against a game. Every game starts at PRIORITY_BASE and each
+// enabled rule that fires adds its points; the breakdown records which ones did, so a 7 can be
+// explained. Runs on the client (settings previews) as well as the server.
+
+import { Game, PriorityRule, PriorityRuleResult, PriorityRuleType, UserPreferences } from './domain'
+import { getFeedAvailability } from './blackouts'
+import { getRegionalBoost, MAX_REGIONAL_BOOST } from './regional-priority'
+
+export const PRIORITY_BASE = 5
+export const PRIORITY_MIN = 1
+export const PRIORITY_MAX = 10
+
+// Matches the scoring used before rules were configurable
+export const DEFAULT_PRIORITY_RULES: PriorityRule[] = [
+  { id: 'favorite-team', type: 'favoriteTeam', enabled: true, weight: 3 },
+  { id: 'regional', type: 'regional', enabled: true, weight: MAX_REGIONAL_BOOST },
+  { id: 'playoff', type: 'playoff', enabled: true, weight: 2 },
+  { id: 'team-quality', type: 'teamQuality', enabled: true, weight: 1, above: 0.7, below: 0.3 }
+]
+
+export const PRIORITY_RULE_LABELS: Record<PriorityRuleType, string> = {
+  favoriteTeam: 'Favorite teams',
+  regional: 'Local market',
+  playoff: 'Playoff games',
+  teamQuality: 'Team records',
+  nationalBroadcast: 'National broadcast',
+  rivalry: 'Rivalry',
+  standingsProximity: 'Close in the standings',
+  starPlayer: 'Star player',
+  opponent: 'Favorite team vs opponent'
+}
+
+// A new rule of the given type with starter values, for the settings editor
+export function createPriorityRule(type: PriorityRuleType): PriorityRule {
+  const base = { id: `${type}-${Date.now().toString(36)}`, enabled: true, weight: 1 }
+  switch (type) {
+    case 'teamQuality':
+      return { ...base, type, above: 0.7, below: 0.3 }
+    case 'rivalry':
+      return { ...base, type, teams: ['BOS', 'LAL'] }
+    case 'standingsProximity':
+      return { ...base, type, maxGamesApart: 3 }
+    case 'starPlayer':
+      return { ...base, type, player: '', teamTricode: 'ATL' }
+    case 'opponent':
+      return { ...base, type, teamTricode: 'ATL' }
+    default:
+      return { ...base, type }
+  }
+}
+
+function winPct(team: Game['homeTeam']) {
+  const played = team.wins + team.losses
+  return played > 0 ? team.wins / played : null
+}
+
+// Games separating two teams in the standings
+function gamesApart(a: Game['homeTeam'], b: Game['homeTeam']) {
+  return Math.abs((a.wins - a.losses) - (b.wins - b.losses)) / 2
+}
+
+function hasTeam(game: Game, tricode: string) {
+  return game.homeTeam.teamTricode === tricode || game.awayTeam.teamTricode === tricode
+}
+
+// Points and a short explanation when the rule fires, null when it doesn't
+function evaluateRule(rule: PriorityRule, game: Game, preferences: UserPreferences): { points: number; label: string } | null {
+  switch (rule.type) {
+    case 'favoriteTeam': {
+      const favorite = [game.homeTeam, game.awayTeam].find(team => preferences.favoriteNbaTeams.includes(team.teamTricode))
+      return favorite ? { points: rule.weight, label: `Favorite team (${favorite.teamTricode})` } : null
+    }
+    case 'regional': {
+      // The weight is the in-market boost; nearby markets get a share of it by distance
+      const boost = getRegionalBoost(preferences.zipCode, game)
+      return boost > 0 ? { points: rule.weight * boost / MAX_REGIONAL_BOOST, label: 'Local market team' } : null
+    }
+    case 'playoff': {
+      const label = game.gameLabel.toLowerCase()
+      return label.includes('playoff') || label.includes('finals') ? { points: rule.weight, label: 'Playoff game' } : null
+    }
+    case 'teamQuality': {
+      const home = winPct(game.homeTeam)
+      const away = winPct(game.awayTeam)
+      if (home === null || away === null) return null
+      const average = (home + away) / 2
+      if (average > rule.above) return { points: rule.weight, label: 'Strong records' }
+      if (average < rule.below) return { points: -rule.weight, label: 'Weak records' }
+      return null
+    }
+    case 'nationalBroadcast': {
+      // Only counts where the national feed isn't blacked out in favor of a local one
+      const national = getFeedAvailability(game, preferences.zipCode).visible.find(feed => feed.type === 'national' && !feed.streaming)
+      return national ? { points: rule.weight, label: `National broadcast (${national.broadcaster.broadcasterDisplay})` } : null
+    }
+    case 'rivalry': {
+      const [first, second] = rule.teams
+      return hasTeam(game, first) && hasTeam(game, second) ? { points: rule.weight, label: `Rivalry (${first}-${second})` } : null
+    }
+    case 'standingsProximity': {
+      if (winPct(game.homeTeam) === null || winPct(game.awayTeam) === null) return null
+      const apart = gamesApart(game.homeTeam, game.awayTeam)
+      return apart <= rule.maxGamesApart ? { points: rule.weight, label: `${apart} games apart in the standings` } : null
+    }
+    case 'starPlayer':
+      return rule.player && hasTeam(game, rule.teamTricode)
+        ? { points: rule.weight, label: `Star player (${rule.player})` }
+        : null
+    case 'opponent': {
+      const favoritePlaying = preferences.favoriteNbaTeams.some(tricode => tricode !== rule.teamTricode && hasTeam(game, tricode))
+      return favoritePlaying && hasTeam(game, rule.teamTricode)
+        ? { points: rule.weight, label: `Favorite team vs ${rule.teamTricode}` }
+        : null
+    }
+  }
+}
+
+export function evaluatePriority(game: Game, preferences: UserPreferences): { priority: number; breakdown: PriorityRuleResult[] } {
+  const rules = preferences.priorityRules ?? DEFAULT_PRIORITY_RULES
+  const breakdown: PriorityRuleResult[] = []
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return
+    const result = evaluateRule(rule, game, preferences)
+    if (!result || result.points === 0) return
+    breakdown.push({
+      ruleId: rule.id,
+      type: rule.type,
+      label: result.label,
+      points: Math.round(result.points * 10) / 10
+    })
+  })
+
+  const total = breakdown.reduce((sum, result) => sum + result.points, PRIORITY_BASE)
+  return {
+    priority: Math.max(PRIORITY_MIN, Math.min(PRIORITY_MAX, Math.round(total))),
+    breakdown
+  }
+}
+
+// "Favorite team (BOS) +3, Local market team +1.5"
+export function formatPriorityBreakdown(breakdown: PriorityRuleResult[]) {
+  if (breakdown.length === 0) return `Base priority ${PRIORITY_BASE}`
+  return breakdown
+    .map(result => `${result.label} ${result.points > 0 ? '+' : ''}${result.points}`)
+    .join(', ')
+}
+
+// Tooltip text for a scored game; plans saved before rules existed have no breakdown
+export function formatPriorityTitle(priority: number, breakdown?: PriorityRuleResult[]) {
+  return breakdown ? `Priority: ${priority}/10 - ${formatPriorityBreakdown(breakdown)}` : `Priority: ${priority}/10`
+}
@@ -0,0 +1,63 @@
+// Regional interest in a game from the venue's zip code. A team's home market gets the full
+// boost; outside it the boost fades with distance from the arena, so a bar an hour from
+// Sacramento still leans Kings while one across the country doesn't.
+
+import { findMarketByTeam, findMarketsForZip, isInMarket } from './data/media-markets'
+import { findZipRegion, STATE_CENTROIDS } from './data/zip-regions'
+
+export const MAX_REGIONAL_BOOST = 2
+// Past this distance from the arena a team gets no regional boost
+export const REGIONAL_RADIUS_MILES = 300
+
+const EARTH_RADIUS_MILES = 3959
+
+interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+interface RegionalTeams {
+  homeTeam: { teamTricode: string }
+  awayTeam: { teamTricode: string }
+}
+
+function toRadians(degrees: number) {
+  return degrees * Math.PI / 180
+}
+
+export function distanceMiles(from: Coordinates, to: Coordinates) {
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a))
+}
+
+// Best guess at where a zip code is: its media market's arena, else the middle of its state
+export function locateZip(zipCode: string): Coordinates | null {
+  const [market] = findMarketsForZip(zipCode)
+  if (market) return { latitude: market.latitude, longitude: market.longitude }
+  const region = findZipRegion(zipCode)
+  return region ? STATE_CENTROIDS[region.state] ?? null : null
+}
+
+export function getTeamRegionalBoost(zipCode: string, teamTricode: string) {
+  const market = findMarketByTeam(teamTricode)
+  if (!market) return 0
+  if (isInMarket(market, zipCode)) return MAX_REGIONAL_BOOST
+
+  const location = locateZip(zipCode)
+  if (!location) return 0
+  const distance = distanceMiles(location, market)
+  if (distance >= REGIONAL_RADIUS_MILES) return 0
+  return MAX_REGIONAL_BOOST * (1 - distance / REGIONAL_RADIUS_MILES)
+}
+
+// The stronger of the two teams' boosts - a local team is the draw whoever it plays
+export function getRegionalBoost(zipCode: string, game: RegionalTeams) {
+  if (!zipCode) return 0
+  return Math.max(
+    getTeamRegionalBoost(zipCode, game.homeTeam.teamTricode),
+    getTeamRegionalBoost(zipCode, game.awayTeam.teamTricode)
+  )
+}
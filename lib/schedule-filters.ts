@@ -0,0 +1,113 @@
+// Server-side filtering for /api/schedule query parameters
+
+import { todayKey } from './clock'
+
+export type GameStatusFilter = 'upcoming' | 'live' | 'final'
+
+export interface ScheduleFilters {
+  from?: string
+  to?: string
+  teams?: string[]
+  status?: GameStatusFilter
+}
+
+interface FilterableGame {
+  gameStatus: number
+  homeTeam: { teamTricode: string }
+  awayTeam: { teamTricode: string }
+}
+
+interface FilterableGameDate<G extends FilterableGame> {
+  gameDate: string
+  games: G[]
+}
+
+// NBA CDN gameStatus values
+const STATUS_CODES: Record<GameStatusFilter, number> = {
+  upcoming: 1,
+  live: 2,
+  final: 3
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Convert "MM/DD/YYYY HH:MM:SS" to "YYYY-MM-DD"
+export function toDateKey(gameDate: string) {
+  const [month, day, year] = gameDate.split(' ')[0].split('/')
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+// "today" resolves against the server clock, which may be frozen for fixture data, in the venue's
+// zone when known - a West Coast venue's evening is already tomorrow in Eastern Time
+function resolveDate(value: string, timeZone?: string) {
+  return value === 'today' ? todayKey(timeZone) : value
+}
+
+export function parseScheduleFilters(params: URLSearchParams, timeZone?: string): { filters: ScheduleFilters } | { error: string } {
+  const filters: ScheduleFilters = {}
+
+  const from = params.get('from')
+  if (from) {
+    const date = resolveDate(from, timeZone)
+    if (!DATE_PATTERN.test(date)) return { error: 'Invalid "from" date, expected YYYY-MM-DD or "today"' }
+    filters.from = date
+  }
+
+  const to = params.get('to')
+  if (to) {
+    const date = resolveDate(to, timeZone)
+    if (!DATE_PATTERN.test(date)) return { error: 'Invalid "to" date, expected YYYY-MM-DD or "today"' }
+    filters.to = date
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { error: '"from" must be on or before "to"' }
+  }
+
+  const teams = params.get('teams')
+  if (teams) {
+    filters.teams = teams.split(',').map(team => team.trim().toUpperCase()).filter(Boolean)
+  }
+
+  const status = params.get('status')
+  if (status && status !== 'all') {
+    if (!Object.hasOwn(STATUS_CODES, status)) {
+      return { error: 'Invalid "status", expected one of: upcoming, live, final, all' }
+    }
+    filters.status = status as GameStatusFilter
+  }
+
+  return { filters }
+}
+
+export function hasFilters(filters: ScheduleFilters) {
+  return Boolean(filters.from || filters.to || filters.teams?.length || filters.status)
+}
+
+export function filterGameDates<G extends FilterableGame, D extends FilterableGameDate<G>>(
+  gameDates: D[],
+  filters: ScheduleFilters
+): D[] {
+  const statusCode = filters.status ? STATUS_CODES[filters.status] : null
+
+  return gameDates
+    .filter(gameDate => {
+      const dateKey = toDateKey(gameDate.gameDate)
+      if (filters.from && dateKey < filters.from) return false
+      if (filters.to && dateKey > filters.to) return false
+      return true
+    })
+    .map(gameDate => ({
+      ...gameDate,
+      games: gameDate.games.filter(game => {
+        if (statusCode !== null && game.gameStatus !== statusCode) return false
+        if (filters.teams?.length &&
+            !filters.teams.includes(game.homeTeam.teamTricode) &&
+            !filters.teams.includes(game.awayTeam.teamTricode)) {
+          return false
+        }
+        return true
+      })
+    }))
+    .filter(gameDate => gameDate.games.length > 0)
+}
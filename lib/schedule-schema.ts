@@ -0,0 +1,289 @@
+// Declared schema for the NBA CDN schedule payload. Validation repairs games with
+// missing or mistyped optional fields, drops games that can't be shown at all, and
+// reports every unknown or missing field so upstream drift is visible.
+
+import { BROADCASTER_LIST_KEYS, Game, GameDate, ScheduleData } from './domain'
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array'
+
+interface FieldSpec {
+  type: FieldType
+  // Games missing a required field are dropped instead of repaired
+  required?: boolean
+  nullable?: boolean
+}
+
+const GAME_SCHEMA: Record<string, FieldSpec> = {
+  gameId: { type: 'string', required: true },
+  gameCode: { type: 'string' },
+  gameStatus: { type: 'number', required: true },
+  gameStatusText: { type: 'string' },
+  gameSequence: { type: 'number' },
+  gameDateEst: { type: 'string', required: true },
+  gameTimeEst: { type: 'string' },
+  gameDateTimeEst: { type: 'string' },
+  gameDateUTC: { type: 'string' },
+  gameTimeUTC: { type: 'string' },
+  gameDateTimeUTC: { type: 'string', required: true },
+  awayTeamTime: { type: 'string' },
+  homeTeamTime: { type: 'string' },
+  day: { type: 'string' },
+  monthNum: { type: 'number' },
+  weekNumber: { type: 'number' },
+  weekName: { type: 'string' },
+  ifNecessary: { type: 'string' },
+  seriesGameNumber: { type: 'string' },
+  gameLabel: { type: 'string' },
+  gameSubLabel: { type: 'string' },
+  seriesText: { type: 'string' },
+  arenaName: { type: 'string' },
+  arenaState: { type: 'string' },
+  arenaCity: { type: 'string' },
+  postponedStatus: { type: 'string' },
+  branchLink: { type: 'string' },
+  gameSubtype: { type: 'string' },
+  isNeutral: { type: 'boolean' },
+  pointsLeaders: { type: 'array' }
+}
+
+const TEAM_SCHEMA: Record<string, FieldSpec> = {
+  teamId: { type: 'number', required: true },
+  teamName: { type: 'string', required: true },
+  teamCity: { type: 'string', required: true },
+  teamTricode: { type: 'string', required: true },
+  teamSlug: { type: 'string' },
+  wins: { type: 'number' },
+  losses: { type: 'number' },
+  score: { type: 'number' },
+  seed: { type: 'number', nullable: true }
+}
+
+const BROADCASTER_SCHEMA: Record<string, FieldSpec> = {
+  broadcasterScope: { type: 'string' },
+  broadcasterMedia: { type: 'string' },
+  broadcasterId: { type: 'number', required: true },
+  broadcasterDisplay: { type: 'string', required: true },
+  broadcasterAbbreviation: { type: 'string' },
+  broadcasterDescription: { type: 'string' },
+  tapeDelayComments: { type: 'string' },
+  broadcasterVideoLink: { type: 'string' },
+  broadcasterTeamId: { type: 'number' },
+  broadcasterRanking: { type: 'number', nullable: true },
+  localizationRegion: { type: 'string' }
+}
+
+// Object-valued game fields that are validated separately
+const NESTED_GAME_FIELDS = ['homeTeam', 'awayTeam', 'broadcasters']
+
+// Reject the whole payload (keep serving the last good one) past this share of dropped games
+const MAX_DROPPED_RATIO = 0.5
+
+const DEFAULTS: Record<FieldType, unknown> = {
+  string: '',
+  number: 0,
+  boolean: false,
+  array: []
+}
+
+export interface DroppedGame {
+  gameId: string | null
+  reason: string
+}
+
+export interface ScheduleWarnings {
+  unknownFields: string[]
+  missingFields: string[]
+  repairedGames: number
+  droppedGames: DroppedGame[]
+  totalGames: number
+}
+
+export interface ValidatedSchedule {
+  schedule: ScheduleData
+  warnings: ScheduleWarnings
+}
+
+export class ScheduleSchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScheduleSchemaError'
+  }
+}
+
+type UnknownRecord = Record<string, unknown>
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function matchesType(value: unknown, spec: FieldSpec) {
+  if (value === null) return Boolean(spec.nullable)
+  if (spec.type === 'array') return Array.isArray(value)
+  return typeof value === spec.type
+}
+
+class DriftCollector {
+  unknownFields = new Set<string>()
+  missingFields = new Set<string>()
+
+  // Copy known fields, repairing bad optional ones. Returns the first bad required field, if any.
+  apply(source: UnknownRecord, schema: Record<string, FieldSpec>, path: string, target: UnknownRecord, knownExtras: string[] = []) {
+    let repaired = false
+    let missingRequired: string | null = null
+
+    Object.entries(schema).forEach(([field, spec]) => {
+      if (matchesType(source[field], spec)) {
+        target[field] = source[field]
+        return
+      }
+      this.missingFields.add(`${path}.${field}`)
+      if (spec.required) {
+        missingRequired = missingRequired ?? field
+        return
+      }
+      target[field] = spec.nullable ? null : DEFAULTS[spec.type]
+      repaired = true
+    })
+
+    Object.keys(source).forEach(field => {
+      if (!(field in schema) && !knownExtras.includes(field)) {
+        this.unknownFields.add(`${path}.${field}`)
+        target[field] = source[field]
+      }
+    })
+
+    return { repaired, missingRequired: missingRequired as string | null }
+  }
+}
+
+function validateGame(raw: unknown, drift: DriftCollector): { game: Game | null; repaired: boolean; reason?: string } {
+  if (!isRecord(raw)) return { game: null, repaired: false, reason: 'not an object' }
+
+  const game: UnknownRecord = {}
+  const result = drift.apply(raw, GAME_SCHEMA, 'game', game, NESTED_GAME_FIELDS)
+  let repaired = result.repaired
+  if (result.missingRequired) {
+    return { game: null, repaired, reason: `missing ${result.missingRequired}` }
+  }
+
+  for (const side of ['homeTeam', 'awayTeam']) {
+    if (!isRecord(raw[side])) {
+      drift.missingFields.add(`game.${side}`)
+      return { game: null, repaired, reason: `missing ${side}` }
+    }
+    const team: UnknownRecord = {}
+    const teamResult = drift.apply(raw[side] as UnknownRecord, TEAM_SCHEMA, 'team', team)
+    if (teamResult.missingRequired) {
+      return { game: null, repaired, reason: `missing ${side}.${teamResult.missingRequired}` }
+    }
+    repaired = repaired || teamResult.repaired
+    game[side] = team
+  }
+
+  // Broadcast info is nice to have - a bad list becomes an empty one
+  const rawBroadcasters = isRecord(raw.broadcasters) ? raw.broadcasters : null
+  if (!rawBroadcasters) {
+    drift.missingFields.add('game.broadcasters')
+    repaired = true
+  }
+  const broadcasters: UnknownRecord = {}
+  BROADCASTER_LIST_KEYS.forEach(key => {
+    const list = rawBroadcasters?.[key]
+    if (!Array.isArray(list)) {
+      if (rawBroadcasters) {
+        drift.missingFields.add(`broadcasters.${key}`)
+        repaired = true
+      }
+      broadcasters[key] = []
+      return
+    }
+    broadcasters[key] = list.flatMap(item => {
+      if (!isRecord(item)) {
+        repaired = true
+        return []
+      }
+      const broadcaster: UnknownRecord = {}
+      const broadcasterResult = drift.apply(item, BROADCASTER_SCHEMA, 'broadcaster', broadcaster)
+      repaired = repaired || broadcasterResult.repaired
+      if (broadcasterResult.missingRequired) {
+        repaired = true
+        return []
+      }
+      return [broadcaster]
+    })
+  })
+  if (rawBroadcasters) {
+    Object.keys(rawBroadcasters).forEach(key => {
+      if (!(BROADCASTER_LIST_KEYS as string[]).includes(key)) drift.unknownFields.add(`broadcasters.${key}`)
+    })
+  }
+  game.broadcasters = broadcasters
+
+  return { game: game as unknown as Game, repaired }
+}
+
+// Throws ScheduleSchemaError when the payload is unusable, so callers keep the last good snapshot
+export function validateSchedulePayload(payload: unknown): ValidatedSchedule {
+  if (!isRecord(payload) || !isRecord(payload.leagueSchedule) || !Array.isArray(payload.leagueSchedule.gameDates)) {
+    throw new ScheduleSchemaError('Schedule payload is missing leagueSchedule.gameDates')
+  }
+
+  const drift = new DriftCollector()
+  const droppedGames: DroppedGame[] = []
+  let repairedGames = 0
+  let totalGames = 0
+
+  const gameDates: GameDate[] = []
+  payload.leagueSchedule.gameDates.forEach((rawDate: unknown) => {
+    if (!isRecord(rawDate) || typeof rawDate.gameDate !== 'string' || !Array.isArray(rawDate.games)) {
+      drift.missingFields.add('gameDate.gameDate')
+      return
+    }
+
+    const games: Game[] = []
+    rawDate.games.forEach((rawGame: unknown) => {
+      totalGames++
+      const { game, repaired, reason } = validateGame(rawGame, drift)
+      if (!game) {
+        const gameId = isRecord(rawGame) && typeof rawGame.gameId === 'string' ? rawGame.gameId : null
+        droppedGames.push({ gameId, reason: reason ?? 'invalid' })
+        return
+      }
+      if (repaired) repairedGames++
+      games.push(game)
+    })
+
+    if (games.length > 0) {
+      gameDates.push({ gameDate: rawDate.gameDate, games })
+    }
+  })
+
+  if (totalGames > 0 && droppedGames.length / totalGames > MAX_DROPPED_RATIO) {
+    throw new ScheduleSchemaError(`Schedule payload rejected: ${droppedGames.length} of ${totalGames} games failed validation`)
+  }
+
+  const meta = isRecord(payload.meta) ? payload.meta : {}
+  const leagueSchedule = payload.leagueSchedule
+
+  return {
+    schedule: {
+      meta: {
+        version: typeof meta.version === 'number' ? meta.version : 0,
+        request: typeof meta.request === 'string' ? meta.request : '',
+        time: typeof meta.time === 'string' ? meta.time : new Date().toISOString()
+      },
+      leagueSchedule: {
+        seasonYear: typeof leagueSchedule.seasonYear === 'string' ? leagueSchedule.seasonYear : '',
+        leagueId: typeof leagueSchedule.leagueId === 'string' ? leagueSchedule.leagueId : '',
+        gameDates
+      }
+    },
+    warnings: {
+      unknownFields: Array.from(drift.unknownFields).sort(),
+      missingFields: Array.from(drift.missingFields).sort(),
+      repairedGames,
+      droppedGames,
+      totalGames
+    }
+  }
+}
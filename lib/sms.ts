@@ -0,0 +1,167 @@
+// Outgoing text messages. Each provider implements SmsProvider; SMS_TRANSPORT picks one by name,
+// and without it Twilio is used when TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER
+// are all set. Otherwise messages are kept in the local SMS sink (.data/sms-sink.json) and logged,
+// so texts can be checked without sending anything.
+
+import { now } from './clock'
+import { readDocument, writeDocument } from './storage'
+
+export const SMS_SEGMENT_LENGTH = 160
+
+export interface SmsMessage {
+  // E.164, e.g. "+14155550123"; see normalizePhoneNumber
+  to: string
+  body: string
+}
+
+export interface SinkedSms extends SmsMessage {
+  id: string
+  sentAt: string
+}
+
+export interface SmsProvider {
+  // Whether the provider has what it needs in the environment
+  isConfigured(): boolean
+  // The provider's message id; throws when the message couldn't be sent
+  send(message: SmsMessage): Promise<string>
+}
+
+const SINK_DOCUMENT_NAME = 'sms-sink'
+
+// Keep the most recent messages only
+const MAX_SINKED_MESSAGES = 100
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/
+
+// US numbers may be typed without the country code; anything else needs the leading "+"
+export function normalizePhoneNumber(value: string): string | null {
+  const compact = value.trim().replace(/[\s().-]/g, '')
+  const digits = compact.replace(/^\+/, '')
+  if (!/^\d+$/.test(digits)) return null
+
+  if (compact.startsWith('+')) return E164_PATTERN.test(compact) ? compact : null
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  return null
+}
+
+export async function readSmsSink(): Promise<SinkedSms[]> {
+  return (await readDocument<{ messages: SinkedSms[] }>(SINK_DOCUMENT_NAME, { messages: [] })).messages
+}
+
+// Sink writes run one at a time so concurrent sends don't drop each other's messages
+let pendingSink: Promise<unknown> = Promise.resolve()
+
+const sinkProvider: SmsProvider = {
+  isConfigured: () => true,
+  send(message) {
+    const run = pendingSink.catch(() => {}).then(async () => {
+      const sentAt = now()
+      const sinked: SinkedSms = { ...message, id: `sms-sink-${sentAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`, sentAt: sentAt.toISOString() }
+      const messages = await readSmsSink()
+      await writeDocument(SINK_DOCUMENT_NAME, { messages: [...messages, sinked].slice(-MAX_SINKED_MESSAGES) })
+      console.log(`SMS sink: to ${message.to}\n${message.body}`)
+      return sinked.id
+    })
+    pendingSink = run
+    return run
+  }
+}
+
+const twilioProvider: SmsProvider = {
+  isConfigured: () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER),
+  async send(message) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID!
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${accountSid}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: message.to, From: process.env.TWILIO_FROM_NUMBER!, Body: message.body })
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok || typeof result.sid !== 'string') {
+      throw new Error(`Twilio error: ${result.message ?? `HTTP ${response.status}`}`)
+    }
+    return result.sid
+  }
+}
+
+// Add a provider here to make it available through SMS_TRANSPORT
+const SMS_PROVIDERS: Record<string, SmsProvider> = {
+  twilio: twilioProvider,
+  sink: sinkProvider
+}
+
+export function getSmsTransport() {
+  const requested = process.env.SMS_TRANSPORT?.trim()
+  if (requested) {
+    if (!SMS_PROVIDERS[requested]) throw new Error(`Unknown SMS_TRANSPORT "${requested}"`)
+    return requested
+  }
+  return twilioProvider.isConfigured() ? 'twilio' : 'sink'
+}
+
+// The message id; throws when the message couldn't be sent
+export async function sendSms(message: SmsMessage): Promise<string> {
+  const name = getSmsTransport()
+  const provider = SMS_PROVIDERS[name]
+  if (!provider.isConfigured()) throw new Error(`SMS provider "${name}" is not configured`)
+  return provider.send(message)
+}
+
+// Splits on spaces to fit; a single word longer than the limit is cut
+function splitLine(line: string, limit: number) {
+  const parts: string[] = []
+  let current = ''
+  for (const word of line.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word
+    if (candidate.length <= limit) {
+      current = candidate
+      continue
+    }
+    if (current) parts.push(current)
+    current = word
+    while (current.length > limit) {
+      parts.push(current.slice(0, limit))
+      current = current.slice(limit)
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+function packLines(lines: string[], limit: number) {
+  const segments: string[] = []
+  let current = ''
+  for (const line of lines.flatMap(line => splitLine(line, limit))) {
+    const candidate = current ? `${current}\n${line}` : line
+    if (candidate.length <= limit) {
+      current = candidate
+    } else {
+      segments.push(current)
+      current = line
+    }
+  }
+  if (current) segments.push(current)
+  return segments
+}
+
+// Lines of text as messages of at most 160 characters each, breaking between lines where possible.
+// Keep to GSM-7 characters ("->", not "→"): one other character drops every segment to 70.
+// Messages are numbered "(1/3)" when there's more than one, since carriers don't always deliver
+// them in order.
+export function splitIntoSmsSegments(lines: string[]): string[] {
+  const single = packLines(lines, SMS_SEGMENT_LENGTH)
+  if (single.length <= 1) return single
+
+  // Leave room for the " (n/m)" counter; more counter digits can add a segment, so repeat until stable
+  let segments = single
+  for (let count = single.length; ; count = segments.length) {
+    const counterLength = ` (${count}/${count})`.length
+    segments = packLines(lines, SMS_SEGMENT_LENGTH - counterLength)
+    if (segments.length <= count) break
+  }
+  return segments.map((segment, index) => `${segment} (${index + 1}/${segments.length})`)
+}
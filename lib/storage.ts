@@ -0,0 +1,41 @@
+// JSON document persistence under DATA_DIR (default .data/). Each document is one file that is
+// rewritten on every save, so keep documents small. Writes to the same file are serialized.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const DEFAULT_DATA_DIR = '.data'
+
+const pendingWrites = new Map<string, Promise<void>>()
+
+function resolveDocumentPath(name: string) {
+  return path.resolve(process.cwd(), process.env.DATA_DIR || DEFAULT_DATA_DIR, `${name}.json`)
+}
+
+export async function readDocument<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(resolveDocumentPath(name), 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+export function writeDocument<T>(name: string, data: T): Promise<void> {
+  const filePath = resolveDocumentPath(name)
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve()
+
+  // Write to a temp file and rename so readers never see a partial document
+  const write = previous.catch(() => {}).then(async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2))
+    await fs.rename(tempPath, filePath)
+  })
+
+  pendingWrites.set(filePath, write)
+  write.finally(() => {
+    if (pendingWrites.get(filePath) === write) pendingWrites.delete(filePath)
+  }).catch(() => {})
+  return write
+}
@@ -0,0 +1,234 @@
+// Email and text message subscriptions for every venue, one per recipient, in one document.
+// lib/email-scheduler.ts sends the active ones. Recipients confirm, change and stop their own
+// subscription through links carrying its token.
+
+import { randomBytes, randomUUID } from 'crypto'
+import { now } from './clock'
+import {
+  DEFAULT_VENUE_ID,
+  NOTIFICATION_CHANNEL_NAMES,
+  NotificationChannelName,
+  SUBSCRIPTION_CADENCES,
+  SUBSCRIPTION_PLAN_TYPES,
+  SubscriptionCadence,
+  SubscriptionPlanType,
+  Subscription,
+  SubscriptionSummary,
+  isValidVenueId
+} from './domain'
+import { getNotificationChannel } from './notifications'
+import { readDocument, writeDocument } from './storage'
+
+const DOCUMENT_NAME = 'email-subscriptions'
+
+// Sent at 9:00 in the venue's zone unless another time is given
+const DEFAULT_SEND_TIME = '09:00'
+
+const MAX_RECIPIENTS = 20
+
+const SEND_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const CHANNEL_ADDRESS_NAMES: Record<NotificationChannelName, string> = {
+  email: 'email address',
+  sms: 'phone number'
+}
+
+export type SubscriptionInput = Pick<Subscription, 'venueId' | 'channel' | 'cadence' | 'sendTime' | 'planType'> & {
+  // Normalized addresses for the channel
+  recipients: string[]
+}
+
+// What a recipient can change about their own subscription
+export type SubscriptionChanges = Partial<Pick<Subscription, 'cadence' | 'sendTime' | 'status'>>
+
+interface SubscriptionDocument {
+  subscriptions: Subscription[]
+}
+
+function isSendTime(value: unknown): value is string {
+  return typeof value === 'string' && SEND_TIME_PATTERN.test(value)
+}
+
+export function toSubscriptionSummary(subscription: Subscription): SubscriptionSummary {
+  const summary: Partial<Subscription> = { ...subscription }
+  delete summary.token
+  return summary as SubscriptionSummary
+}
+
+// "j•••@example.com", "•••0123" - enough for a manager to tell subscribers apart without handing
+// their addresses to anyone who asks
+export function maskAddress(subscription: Pick<Subscription, 'channel' | 'address'>) {
+  if (subscription.channel === 'sms') return `•••${subscription.address.slice(-4)}`
+  const [name, domain] = subscription.address.split('@')
+  return `${name.slice(0, 1)}•••@${domain}`
+}
+
+export function parseSubscriptionInput(body: unknown): { input: SubscriptionInput } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return { error: 'Expected a subscription object' }
+  const value = body as Record<string, unknown>
+
+  const venueId = value.venueId ?? DEFAULT_VENUE_ID
+  if (typeof venueId !== 'string' || !isValidVenueId(venueId)) return { error: 'Invalid venueId' }
+
+  const channel = value.channel ?? 'email'
+  if (!NOTIFICATION_CHANNEL_NAMES.includes(channel as NotificationChannelName)) {
+    return { error: `Invalid channel, expected ${NOTIFICATION_CHANNEL_NAMES.join(' or ')}` }
+  }
+
+  const recipients = Array.isArray(value.recipients)
+    ? value.recipients.map(recipient => typeof recipient === 'string' ? recipient.trim() : '')
+    : []
+  if (recipients.length === 0 || recipients.length > MAX_RECIPIENTS) {
+    return { error: `Expected 1 to ${MAX_RECIPIENTS} recipients` }
+  }
+  const { normalizeAddress } = getNotificationChannel(channel as NotificationChannelName)
+  const invalidRecipient = recipients.find(recipient => normalizeAddress(recipient) === null)
+  if (invalidRecipient !== undefined) {
+    return { error: `Invalid ${CHANNEL_ADDRESS_NAMES[channel as NotificationChannelName]} "${invalidRecipient}"` }
+  }
+
+  if (!SUBSCRIPTION_CADENCES.includes(value.cadence as SubscriptionCadence)) {
+    return { error: `Invalid cadence, expected ${SUBSCRIPTION_CADENCES.join(' or ')}` }
+  }
+
+  const sendTime = value.sendTime ?? DEFAULT_SEND_TIME
+  if (!isSendTime(sendTime)) return { error: 'Invalid sendTime, expected HH:MM' }
+
+  const planType = value.planType ?? 'schedule'
+  if (!SUBSCRIPTION_PLAN_TYPES.includes(planType as SubscriptionPlanType)) {
+    return { error: `Invalid planType, expected ${SUBSCRIPTION_PLAN_TYPES.join(' or ')}` }
+  }
+
+  return {
+    input: {
+      venueId,
+      channel: channel as NotificationChannelName,
+      recipients: Array.from(new Set(recipients.map(recipient => normalizeAddress(recipient)!))),
+      cadence: value.cadence as SubscriptionCadence,
+      sendTime,
+      planType: planType as SubscriptionPlanType
+    }
+  }
+}
+
+// Only the cadence and send time can be changed, and a subscription can be stopped or restarted
+export function parseSubscriptionChanges(value: Record<string, unknown>): { changes: SubscriptionChanges } | { error: string } {
+  const changes: SubscriptionChanges = {}
+
+  if (value.cadence !== undefined) {
+    if (!SUBSCRIPTION_CADENCES.includes(value.cadence as SubscriptionCadence)) return { error: 'Invalid cadence' }
+    changes.cadence = value.cadence as SubscriptionCadence
+  }
+
+  if (value.sendTime !== undefined) {
+    if (!isSendTime(value.sendTime)) return { error: 'Invalid sendTime, expected HH:MM' }
+    changes.sendTime = value.sendTime
+  }
+
+  return { changes }
+}
+
+// Subscriptions saved before text messages were added have an email and no channel
+async function readSubscriptions(): Promise<SubscriptionDocument> {
+  const { subscriptions } = await readDocument<SubscriptionDocument>(DOCUMENT_NAME, { subscriptions: [] })
+  return {
+    subscriptions: subscriptions.map(subscription => subscription.channel
+      ? subscription
+      : { ...subscription, channel: 'email', address: (subscription as Subscription & { email: string }).email })
+  }
+}
+
+// Every venue's when no venue is given
+export async function listSubscriptions(venueId?: string): Promise<Subscription[]> {
+  const { subscriptions } = await readSubscriptions()
+  return venueId ? subscriptions.filter(subscription => subscription.venueId === venueId) : subscriptions
+}
+
+// Updates run one at a time so a send being recorded never undoes a new subscription
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+function updateSubscriptions<T>(update: (subscriptions: Subscription[]) => { subscriptions: Subscription[]; result: T }): Promise<T> {
+  const run = pendingUpdate.catch(() => {}).then(async () => {
+    const { subscriptions, result } = update((await readSubscriptions()).subscriptions)
+    await writeDocument(DOCUMENT_NAME, { subscriptions })
+    return result
+  })
+  pendingUpdate = run
+  return run
+}
+
+// A recipient who already has a live subscription of the same cadence on the same channel at the
+// venue keeps it. New ones start pending; the caller sends the confirmation to every pending one.
+export function createSubscriptions(input: SubscriptionInput): Promise<Subscription[]> {
+  const { recipients, ...settings } = input
+  return updateSubscriptions(subscriptions => {
+    const created: Subscription[] = []
+    const result = recipients.map(address => {
+      const existing = subscriptions.find(subscription =>
+        subscription.venueId === settings.venueId &&
+        subscription.channel === settings.channel &&
+        subscription.address === address &&
+        subscription.cadence === settings.cadence &&
+        subscription.status !== 'unsubscribed'
+      )
+      if (existing) return existing
+
+      const subscription: Subscription = {
+        ...settings,
+        id: randomUUID(),
+        address,
+        status: 'pending',
+        token: randomBytes(24).toString('base64url'),
+        createdAt: now().toISOString(),
+        confirmedAt: null,
+        lastSentOn: null,
+        lastError: null
+      }
+      created.push(subscription)
+      return subscription
+    })
+    return { subscriptions: [...subscriptions, ...created], result }
+  })
+}
+
+export async function getSubscriptionByToken(token: string): Promise<Subscription | null> {
+  if (!token) return null
+  const { subscriptions } = await readSubscriptions()
+  return subscriptions.find(subscription => subscription.token === token) ?? null
+}
+
+// null when the token matches nothing. Activating a subscription for the first time confirms it.
+export function updateSubscriptionByToken(token: string, changes: SubscriptionChanges): Promise<Subscription | null> {
+  return updateSubscriptions(subscriptions => {
+    const subscription = token ? subscriptions.find(existing => existing.token === token) : undefined
+    if (!subscription) return { subscriptions, result: null }
+
+    const updated: Subscription = {
+      ...subscription,
+      ...changes,
+      confirmedAt: changes.status === 'active' ? subscription.confirmedAt ?? now().toISOString() : subscription.confirmedAt
+    }
+    return { subscriptions: subscriptions.map(existing => existing.id === updated.id ? updated : existing), result: updated }
+  })
+}
+
+// false when there's no such subscription
+export function deleteSubscription(id: string): Promise<boolean> {
+  return updateSubscriptions(subscriptions => {
+    const remaining = subscriptions.filter(subscription => subscription.id !== id)
+    return { subscriptions: remaining, result: remaining.length < subscriptions.length }
+  })
+}
+
+// A successful send records the date it was for; a failed one only its error, so it's retried
+export function recordSubscriptionRun(id: string, outcome: { sentOn: string } | { error: string }): Promise<void> {
+  return updateSubscriptions(subscriptions => ({
+    subscriptions: subscriptions.map(subscription => {
+      if (subscription.id !== id) return subscription
+      return 'sentOn' in outcome
+        ? { ...subscription, lastSentOn: outcome.sentOn, lastError: null }
+        : { ...subscription, lastError: outcome.error }
+    }),
+    result: undefined
+  }))
+}
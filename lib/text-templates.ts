@@ -0,0 +1,41 @@
+// Plain-text versions of the schedule and viewing plan emails (lib/email-templates.ts), for text
+// messages. One line per game or TV change, GSM-7 characters only; see splitIntoSmsSegments.
+
+import { formatTunedBroadcaster, getBroadcasterToTune } from './channel-lineup'
+import { buildDailyDigest, formatDigestDate, formatDigestTextLines, formatRunSheetTime, getPlanDate, getPlannedGames } from './daily-digest'
+import { ChannelLineup, Game } from './domain'
+import { EmailWeekData } from './email-templates'
+
+// "7:00 PHX@CHA FanDuel Sports Network Southeast", with the channel where the lineup knows it
+function formatGameLine(game: Game, timeZone: string, channelLineup: ChannelLineup) {
+  const broadcaster = getBroadcasterToTune(game.broadcasters, channelLineup)
+  const channel = broadcaster ? ` ${formatTunedBroadcaster(broadcaster).replace(' · ', ' ')}` : ''
+  return `${formatRunSheetTime(game, timeZone)} ${game.awayTeam.teamTricode}@${game.homeTeam.teamTricode}${channel}`
+}
+
+// A dated heading per day, then its games in tip-off order
+export function formatScheduleTextLines(weekData: EmailWeekData, timeZone: string, channelLineup: ChannelLineup) {
+  const gamesByDate = new Map<string, Game[]>()
+  weekData.games.forEach(game => {
+    const date = game.gameDateEst.slice(0, 10)
+    gamesByDate.set(date, [...gamesByDate.get(date) ?? [], game])
+  })
+  if (gamesByDate.size === 0) return ['No games scheduled.']
+
+  return Array.from(gamesByDate.keys()).sort().flatMap(date => [
+    `${formatDigestDate(date)}:`,
+    ...gamesByDate.get(date)!
+      .sort((a, b) => new Date(a.gameDateTimeUTC).getTime() - new Date(b.gameDateTimeUTC).getTime())
+      .map(game => formatGameLine(game, timeZone, channelLineup))
+  ])
+}
+
+// Each day of the plan as its run sheet (lib/daily-digest.ts). TV numbers come from tvSchedule, which
+// every optimized week has.
+export function formatPlanTextLines(weekData: EmailWeekData, timeZone: string, channelLineup: ChannelLineup) {
+  const optimizedGames = getPlannedGames(weekData.tvSchedule ?? {})
+  const dates = Array.from(new Set(optimizedGames.map(getPlanDate))).sort()
+  if (dates.length === 0) return ['No games on the plan.']
+
+  return dates.flatMap(date => formatDigestTextLines(buildDailyDigest({ optimizedGames, tvs: weekData.tvs }, date, channelLineup), timeZone))
+}
@@ -0,0 +1,81 @@
+// Venue time zone handling. Game times come from gameDateTimeUTC and are shown in the venue's
+// zone, never parsed out of gameStatusText.
+
+import { findZipRegion } from './data/zip-regions'
+
+// The NBA schedule's own zone, used until a venue sets one
+export const DEFAULT_TIME_ZONE = 'America/New_York'
+
+export const COMMON_TIME_ZONES: Array<{ value: string; label: string }> = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+  { value: 'America/Toronto', label: 'Toronto' },
+  { value: 'America/Vancouver', label: 'Vancouver' }
+]
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getBrowserTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null
+  } catch {
+    return null
+  }
+}
+
+export function getTimeZoneForZip(zipCode: string) {
+  return findZipRegion(zipCode)?.timeZone ?? null
+}
+
+// Saved zone first, then the zip code's, then the browser's
+export function resolveTimeZone(preferences?: { timezone?: string; zipCode?: string } | null) {
+  if (preferences?.timezone && isValidTimeZone(preferences.timezone)) return preferences.timezone
+  const fromZip = preferences?.zipCode ? getTimeZoneForZip(preferences.zipCode) : null
+  if (fromZip) return fromZip
+  const fromBrowser = typeof window !== 'undefined' ? getBrowserTimeZone() : null
+  return fromBrowser && isValidTimeZone(fromBrowser) ? fromBrowser : DEFAULT_TIME_ZONE
+}
+
+// "ET", "PT" - falls back to the zone id where no short name exists
+export function getTimeZoneAbbreviation(timeZone: string, date = new Date()) {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortGeneric' })
+    .formatToParts(date)
+    .find(p => p.type === 'timeZoneName')
+  return part?.value ?? timeZone
+}
+
+// "7:00 pm PT"
+export function formatTime(date: Date | string, timeZone: string) {
+  const value = typeof date === 'string' ? new Date(date) : date
+  const time = value.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' }).toLowerCase()
+  return `${time} ${getTimeZoneAbbreviation(timeZone, value)}`
+}
+
+// Minutes since midnight in the given zone
+export function getMinutesIntoDay(date: Date | string, timeZone: string) {
+  const value = typeof date === 'string' ? new Date(date) : date
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    .formatToParts(value)
+  const hour = parseInt(parts.find(p => p.type === 'hour')?.value ?? '0', 10)
+  const minute = parseInt(parts.find(p => p.type === 'minute')?.value ?? '0', 10)
+  return hour * 60 + minute
+}
+
+// Tip-off in the venue's zone; "TBD" until the league sets a time
+export function formatGameStartTime(game: { gameDateTimeUTC: string; gameStatusText: string }, timeZone: string) {
+  if (/\bTBD\b/i.test(game.gameStatusText)) return 'TBD'
+  const start = new Date(game.gameDateTimeUTC)
+  return isNaN(start.getTime()) ? game.gameStatusText : formatTime(start, timeZone)
+}
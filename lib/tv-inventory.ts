@@ -0,0 +1,78 @@
+// The venue's TVs. Preferences saved before the inventory existed only have numberOfTvs; those
+// get generic screens, TV 1 the most prominent and the only one with sound.
+
+import { Feed } from './blackouts'
+import { normalizeBroadcasterName } from './data/channel-lineups'
+import { TvDefinition, TvZone, UserPreferences } from './domain'
+import { SolverTv } from './tv-solver'
+
+export const MAX_TVS = 50
+
+// A screen with sound draws the room's attention - worth this many prominence points
+export const AUDIO_PROMINENCE_BONUS = 1
+
+// Inputs that carry every TV network the venue subscribes to. Any other input is a single network
+// or streaming service, e.g. "ESPN+" or "NBA League Pass".
+export const LINEAR_TV_INPUTS = ['Cable', 'Satellite']
+
+export const TV_ZONE_LABELS: Record<TvZone, string> = {
+  bar: 'Bar',
+  dining: 'Dining',
+  patio: 'Patio',
+  lounge: 'Lounge',
+  other: 'Other'
+}
+
+export function createTv(index: number, count = index + 1): TvDefinition {
+  return {
+    id: `tv-${index + 1}`,
+    name: `TV ${index + 1}`,
+    zone: 'bar',
+    sizeInches: 55,
+    // 10 for the first screen, falling off evenly to 5 for the last
+    prominence: count === 1 ? 10 : Math.round(10 - (index / (count - 1)) * 5),
+    hasAudio: index === 0,
+    inputs: ['Cable']
+  }
+}
+
+export function createDefaultTvs(count: number) {
+  return Array.from({ length: count }, (_, index) => createTv(index, count))
+}
+
+export function getTvInventory(preferences: Pick<UserPreferences, 'numberOfTvs' | 'tvs'>) {
+  return preferences.tvs?.length ? preferences.tvs : createDefaultTvs(preferences.numberOfTvs)
+}
+
+// The inputs that can show a feed, normalized for matching: the broadcaster itself, and for
+// broadcast and cable networks any linear TV input
+function getFeedInputs(feed: Feed) {
+  return [feed.broadcaster.broadcasterDisplay, ...(feed.streaming ? [] : LINEAR_TV_INPUTS)].map(normalizeBroadcasterName)
+}
+
+export function canTuneFeed(tv: TvDefinition, feed: Feed) {
+  const inputs = getFeedInputs(feed)
+  return tv.inputs.some(input => inputs.includes(normalizeBroadcasterName(input)))
+}
+
+// A game's SolverGame.inputs, from the feeds the venue can watch it on
+export function getGameInputs(feeds: Feed[]) {
+  return Array.from(new Set(feeds.flatMap(getFeedInputs)))
+}
+
+// Inventory order is TV number order: the first TV is TV 1
+export function toSolverTvs(tvs: TvDefinition[]): SolverTv[] {
+  return tvs.map((tv, index) => ({
+    tvNumber: index + 1,
+    name: tv.name,
+    prominence: tv.prominence + (tv.hasAudio ? AUDIO_PROMINENCE_BONUS : 0),
+    inputs: tv.inputs.map(normalizeBroadcasterName)
+  }))
+}
+
+// "Main bar - Bar, 75", sound"
+export function describeTv(tv: TvDefinition) {
+  const details = [TV_ZONE_LABELS[tv.zone], `${tv.sizeInches}"`]
+  if (tv.hasAudio) details.push('sound')
+  return `${tv.name} - ${details.join(', ')}`
+}
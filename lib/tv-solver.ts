@@ -0,0 +1,373 @@
+// Deterministic TV assignment. Every game gets at most one primary TV and no TV shows two games
+// whose windows overlap. Primaries maximize the sum of priority x TV prominence. Two starting
+// plans are built - highest priority game first onto the most prominent free TV, and each TV in
+// turn filled with its best run of back-to-back games - then improved by moves and swaps until no
+// change helps, and the better one kept. Idle TV time is then filled with extra copies of
+// overlapping games, shared out in proportion to priority. A game only goes on a TV with one of
+// its inputs. Pinned games and blocked TV windows are fixed before any of this and never moved.
+// The same games, TVs and constraints always produce the same plan.
+
+export interface SolverGame {
+  gameId: string
+  // Epoch milliseconds
+  start: number
+  end: number
+  priority: number
+  // Inputs any one of which can show the game; any TV can when absent
+  inputs?: string[]
+}
+
+export interface SolverTv {
+  tvNumber: number
+  name?: string
+  // Relative weight of a screen; higher is more prominent
+  prominence: number
+  // What the TV can tune, compared with SolverGame.inputs; see lib/tv-inventory.ts
+  inputs?: string[]
+}
+
+export type AssignmentRole = 'primary' | 'duplicate'
+
+export interface SolverAssignment {
+  gameId: string
+  tvNumber: number
+  start: number
+  end: number
+  role: AssignmentRole
+  // Kept on its TV by a manager rather than placed by the solver
+  pinned: boolean
+  reason: string
+}
+
+export interface SolverPin {
+  gameId: string
+  tvNumber: number
+}
+
+// A stretch of time a TV isn't available for any game
+export interface SolverBlock {
+  tvNumber: number
+  start: number
+  end: number
+}
+
+export interface SolverConstraints {
+  pins: SolverPin[]
+  blocks: SolverBlock[]
+}
+
+export interface SolverPlan {
+  assignments: SolverAssignment[]
+  // Games that overlapped with more higher-priority games than there are TVs able to show them
+  unassignedGameIds: string[]
+  // Sum of priority x prominence over primary assignments
+  score: number
+}
+
+// Improvement passes are cheap, but stop well before anything pathological
+const MAX_IMPROVEMENT_PASSES = 50
+
+function overlaps(a: { start: number; end: number }, b: { start: number; end: number }) {
+  return a.start < b.end && b.start < a.end
+}
+
+// Highest priority first; ties broken by start time and id so the order never depends on input order
+function compareGames(a: SolverGame, b: SolverGame) {
+  return b.priority - a.priority || a.start - b.start || a.gameId.localeCompare(b.gameId)
+}
+
+function compareTvs(a: SolverTv, b: SolverTv) {
+  return b.prominence - a.prominence || a.tvNumber - b.tvNumber
+}
+
+function canShow(tv: SolverTv, game: SolverGame) {
+  return !game.inputs || game.inputs.some(input => tv.inputs?.includes(input))
+}
+
+interface Placement {
+  game: SolverGame
+  tv: SolverTv
+}
+
+class TvTimeline {
+  private placements = new Map<number, Placement[]>()
+
+  constructor(tvs: SolverTv[]) {
+    tvs.forEach(tv => this.placements.set(tv.tvNumber, []))
+  }
+
+  // Whether the TV can show the game and is free for its whole window
+  canPlace(tv: SolverTv, game: SolverGame, ignoring: SolverGame[] = []) {
+    return canShow(tv, game) && this.placements.get(tv.tvNumber)!.every(placement =>
+      ignoring.includes(placement.game) || !overlaps(placement.game, game)
+    )
+  }
+
+  add(placement: Placement) {
+    this.placements.get(placement.tv.tvNumber)!.push(placement)
+  }
+
+  remove(placement: Placement) {
+    const list = this.placements.get(placement.tv.tvNumber)!
+    list.splice(list.indexOf(placement), 1)
+  }
+}
+
+// Highest priority game first, each onto the most prominent TV that can show it and is free for its whole window
+function placeByPriority(games: SolverGame[], tvs: SolverTv[], timeline: TvTimeline) {
+  const placements: Placement[] = []
+  const unplaced: SolverGame[] = []
+
+  games.forEach(game => {
+    const tv = tvs.find(candidate => timeline.canPlace(candidate, game))
+    if (!tv) {
+      unplaced.push(game)
+      return
+    }
+    const placement = { game, tv }
+    timeline.add(placement)
+    placements.push(placement)
+  })
+
+  return { placements, unplaced }
+}
+
+// Most prominent TV first, each given the non-overlapping set of remaining games with the highest
+// total priority (weighted interval scheduling). Wins when one big game would otherwise crowd out
+// two good ones back to back.
+function placeByTv(games: SolverGame[], tvs: SolverTv[], timeline: TvTimeline) {
+  const placements: Placement[] = []
+  let remaining = [...games].sort((a, b) => a.end - b.end || compareGames(a, b))
+
+  tvs.forEach(tv => {
+    // Time taken by pins and blocks is off limits, and so are games the TV can't tune
+    const candidates = remaining.filter(game => timeline.canPlace(tv, game))
+    // best[i]: highest total priority using the first i games; previous[i]: games compatible with game i - 1
+    const best = [0]
+    const previous = candidates.map(game => {
+      let count = 0
+      while (count < candidates.length && candidates[count].end <= game.start) count++
+      return count
+    })
+    candidates.forEach((game, index) => {
+      best.push(Math.max(best[index], game.priority + best[previous[index]]))
+    })
+
+    const chosen = new Set<SolverGame>()
+    for (let i = candidates.length; i > 0;) {
+      const game = candidates[i - 1]
+      if (game.priority + best[previous[i - 1]] >= best[i - 1]) {
+        chosen.add(game)
+        i = previous[i - 1]
+      } else {
+        i--
+      }
+    }
+
+    chosen.forEach(game => {
+      const placement = { game, tv }
+      timeline.add(placement)
+      placements.push(placement)
+    })
+    remaining = remaining.filter(game => !chosen.has(game))
+  })
+
+  return { placements, unplaced: remaining.sort(compareGames) }
+}
+
+type PlacementStrategy = typeof placeByPriority
+
+// Local search: move a game to a more prominent free TV, or swap two games' TVs, whenever that
+// raises the score. Each accepted change strictly improves it, so the loop terminates.
+function improvePrimaries(placements: Placement[], tvs: SolverTv[], timeline: TvTimeline) {
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false
+
+    placements.forEach(placement => {
+      const better = tvs.find(tv =>
+        tv.prominence > placement.tv.prominence && timeline.canPlace(tv, placement.game)
+      )
+      if (better) {
+        timeline.remove(placement)
+        placement.tv = better
+        timeline.add(placement)
+        improved = true
+      }
+    })
+
+    for (let i = 0; i < placements.length; i++) {
+      for (let j = i + 1; j < placements.length; j++) {
+        const a = placements[i]
+        const b = placements[j]
+        if (a.tv === b.tv) continue
+        const gain = (a.game.priority - b.game.priority) * (b.tv.prominence - a.tv.prominence)
+        if (gain <= 0) continue
+        if (!timeline.canPlace(b.tv, a.game, [b.game]) || !timeline.canPlace(a.tv, b.game, [a.game])) continue
+
+        timeline.remove(a)
+        timeline.remove(b)
+        const tv = a.tv
+        a.tv = b.tv
+        b.tv = tv
+        timeline.add(a)
+        timeline.add(b)
+        improved = true
+      }
+    }
+
+    if (!improved) return
+  }
+}
+
+// Fill idle TV time with copies of games, the next copy going to the game with the highest
+// priority / (copies + 1) - so two TVs left over for an 8 and a 5 go 2:0, three go 2:1
+function fillIdleTvs(games: SolverGame[], tvs: SolverTv[], timeline: TvTimeline, copies: Map<string, number>) {
+  const duplicates: Placement[] = []
+
+  for (;;) {
+    let best: Placement | null = null
+    let bestShare = 0
+
+    for (const tv of tvs) {
+      for (const game of games) {
+        if (!copies.has(game.gameId) || !timeline.canPlace(tv, game)) continue
+        const share = game.priority / (copies.get(game.gameId)! + 1)
+        if (!best || share > bestShare) {
+          best = { game, tv }
+          bestShare = share
+        }
+      }
+    }
+
+    if (!best) return duplicates
+    timeline.add(best)
+    duplicates.push(best)
+    copies.set(best.game.gameId, copies.get(best.game.gameId)! + 1)
+  }
+}
+
+function tvName(tv: SolverTv) {
+  return tv.name ?? `TV ${tv.tvNumber}`
+}
+
+function describePrimary(placement: Placement, rank: number, tvs: SolverTv[]) {
+  const tvRank = tvs.indexOf(placement.tv) + 1
+  const name = tvName(placement.tv)
+  const screen = tvRank === 1 ? `${name}, the most prominent TV` : `${name}, the #${tvRank} most prominent TV`
+  return rank === 1
+    ? `Highest priority game in its time window (${placement.game.priority}/10) - on ${screen}`
+    : `Game #${rank} by priority in its time window (${placement.game.priority}/10) - on ${screen}`
+}
+
+// Pins and blocks go on the timeline before anything else. Blocks become placeholder games that
+// only ever occupy their TV.
+function fixConstraints(timeline: TvTimeline, games: SolverGame[], tvs: SolverTv[], constraints: SolverConstraints) {
+  const findTv = (tvNumber: number) => tvs.find(tv => tv.tvNumber === tvNumber)!
+
+  constraints.blocks.forEach((block, index) => {
+    timeline.add({ game: { gameId: `blocked-${index}`, start: block.start, end: block.end, priority: 0 }, tv: findTv(block.tvNumber) })
+  })
+
+  return constraints.pins.map(pin => {
+    const placement = { game: games.find(game => game.gameId === pin.gameId)!, tv: findTv(pin.tvNumber) }
+    timeline.add(placement)
+    return placement
+  })
+}
+
+function buildPrimaries(strategy: PlacementStrategy, games: SolverGame[], tvs: SolverTv[], constraints: SolverConstraints) {
+  const timeline = new TvTimeline(tvs)
+  const pinned = fixConstraints(timeline, games, tvs, constraints)
+  const pinnedGames = new Set(pinned.map(placement => placement.game))
+
+  const { placements, unplaced } = strategy(games.filter(game => !pinnedGames.has(game)), tvs, timeline)
+  improvePrimaries(placements, tvs, timeline)
+  // Moves can free up room for games that didn't fit the first time
+  const retry = placeByPriority(unplaced, tvs, timeline)
+  placements.push(...retry.placements)
+
+  return {
+    timeline,
+    pinned,
+    placements,
+    unplaced: retry.unplaced,
+    score: [...pinned, ...placements].reduce((sum, placement) => sum + placement.game.priority * placement.tv.prominence, 0)
+  }
+}
+
+// Why the constraints can't be honored, or null when they can
+export function findConstraintConflict(games: SolverGame[], tvs: SolverTv[], constraints: SolverConstraints) {
+  const tvNumbers = new Set(tvs.map(tv => tv.tvNumber))
+  const gamesById = new Map(games.map(game => [game.gameId, game]))
+  const occupied: Array<{ tvNumber: number; start: number; end: number; label: string }> = []
+
+  for (const block of constraints.blocks) {
+    if (!tvNumbers.has(block.tvNumber)) return `Blocked window on unknown TV ${block.tvNumber}`
+    if (block.end <= block.start) return `Blocked window on TV ${block.tvNumber} ends before it starts`
+    occupied.push({ ...block, label: 'a blocked window' })
+  }
+
+  const pinnedGameIds = new Set<string>()
+  for (const pin of constraints.pins) {
+    const game = gamesById.get(pin.gameId)
+    if (!game) return `Pinned game ${pin.gameId} is not in this week`
+    if (!tvNumbers.has(pin.tvNumber)) return `Game ${pin.gameId} is pinned to unknown TV ${pin.tvNumber}`
+    if (pinnedGameIds.has(pin.gameId)) return `Game ${pin.gameId} is pinned more than once`
+    const clash = occupied.find(other => other.tvNumber === pin.tvNumber && overlaps(other, game))
+    if (clash) return `Game ${pin.gameId} is pinned to TV ${pin.tvNumber} during ${clash.label}`
+    pinnedGameIds.add(pin.gameId)
+    occupied.push({ tvNumber: pin.tvNumber, start: game.start, end: game.end, label: `pinned game ${pin.gameId}` })
+  }
+
+  return null
+}
+
+// Constraints must pass findConstraintConflict first
+export function solveTvPlan(games: SolverGame[], tvs: SolverTv[], constraints: SolverConstraints = { pins: [], blocks: [] }): SolverPlan {
+  const orderedGames = [...games].sort(compareGames)
+  const orderedTvs = [...tvs].sort(compareTvs)
+
+  const byPriority = buildPrimaries(placeByPriority, orderedGames, orderedTvs, constraints)
+  const byTv = buildPrimaries(placeByTv, orderedGames, orderedTvs, constraints)
+  const { timeline, pinned, placements, unplaced, score } = byTv.score > byPriority.score ? byTv : byPriority
+  const primaries = [...pinned, ...placements]
+
+  const copies = new Map(primaries.map(placement => [placement.game.gameId, 1]))
+  const duplicates = fillIdleTvs(orderedGames, orderedTvs, timeline, copies)
+
+  const assignments: SolverAssignment[] = [
+    ...primaries.map(placement => {
+      const isPinned = pinned.includes(placement)
+      // Rank among the primaries overlapping this game, by the same order games were placed in
+      const rank = primaries.filter(other =>
+        other === placement || (overlaps(other.game, placement.game) && compareGames(other.game, placement.game) < 0)
+      ).length
+      return {
+        gameId: placement.game.gameId,
+        tvNumber: placement.tv.tvNumber,
+        start: placement.game.start,
+        end: placement.game.end,
+        role: 'primary' as const,
+        pinned: isPinned,
+        reason: isPinned
+          ? `Pinned to ${tvName(placement.tv)} (${placement.game.priority}/10)`
+          : describePrimary(placement, rank, orderedTvs)
+      }
+    }),
+    ...duplicates.map(placement => ({
+      gameId: placement.game.gameId,
+      tvNumber: placement.tv.tvNumber,
+      start: placement.game.start,
+      end: placement.game.end,
+      role: 'duplicate' as const,
+      pinned: false,
+      reason: `Extra coverage on ${tvName(placement.tv)} - it would otherwise be idle (${placement.game.priority}/10)`
+    }))
+  ].sort((a, b) => a.start - b.start || a.tvNumber - b.tvNumber || a.gameId.localeCompare(b.gameId))
+
+  return {
+    assignments,
+    unassignedGameIds: unplaced.map(game => game.gameId),
+    score
+  }
+}
@@ -0,0 +1,141 @@
+// In-memory stale-while-revalidate cache for upstream JSON feeds.
+// Entries live on globalThis so they survive across requests (and dev hot reloads).
+
+export type CacheStatus = 'hit' | 'miss' | 'stale' | 'error'
+
+export interface CachedResult<T> {
+  data: T
+  status: CacheStatus
+  fetchedAt: string
+  ageSeconds: number
+  // Why the last refresh failed, when serving the last good snapshot
+  error?: string
+}
+
+interface CacheEntry<T> {
+  data: T
+  etag: string | null
+  lastModified: string | null
+  fetchedAt: number
+}
+
+interface UpstreamCacheOptions<T> {
+  key: string
+  url: string
+  // How long a snapshot is served without checking upstream
+  ttlMs: number
+  // How long past the TTL a snapshot is served while refreshing in the background
+  staleWhileRevalidateMs: number
+  timeoutMs?: number
+  // Validates/normalizes the upstream body. Throwing keeps the last good snapshot.
+  parse?: (body: unknown) => T
+}
+
+interface CacheState {
+  entries: Map<string, CacheEntry<unknown>>
+  inFlight: Map<string, Promise<CacheEntry<unknown>>>
+  lastErrors: Map<string, string>
+}
+
+const globalForCache = globalThis as typeof globalThis & { __upstreamCache?: CacheState }
+
+const state: CacheState = globalForCache.__upstreamCache ?? {
+  entries: new Map(),
+  inFlight: new Map(),
+  lastErrors: new Map()
+}
+globalForCache.__upstreamCache = state
+
+function toResult<T>(key: string, entry: CacheEntry<T>, status: CacheStatus): CachedResult<T> {
+  const error = state.lastErrors.get(key)
+  return {
+    data: entry.data,
+    status,
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    ageSeconds: Math.max(0, Math.round((Date.now() - entry.fetchedAt) / 1000)),
+    ...(error ? { error } : {})
+  }
+}
+
+export function createUpstreamCache<T>(options: UpstreamCacheOptions<T>) {
+  const { key, url, ttlMs, staleWhileRevalidateMs, timeoutMs = 10000, parse } = options
+
+  const revalidate = (): Promise<CacheEntry<T>> => {
+    const pending = state.inFlight.get(key)
+    if (pending) return pending as Promise<CacheEntry<T>>
+
+    const previous = state.entries.get(key) as CacheEntry<T> | undefined
+
+    const request = (async () => {
+      const headers: Record<string, string> = { 'Accept': 'application/json' }
+      if (previous?.etag) headers['If-None-Match'] = previous.etag
+      if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified
+
+      const response = await fetch(url, {
+        headers,
+        cache: 'no-store',
+        signal: AbortSignal.timeout(timeoutMs)
+      })
+
+      if (response.status === 304 && previous) {
+        const refreshed = { ...previous, fetchedAt: Date.now() }
+        state.entries.set(key, refreshed)
+        return refreshed
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+
+      const body = await response.json()
+      const entry: CacheEntry<T> = {
+        data: parse ? parse(body) : body,
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        fetchedAt: Date.now()
+      }
+      state.entries.set(key, entry)
+      return entry
+    })()
+
+    state.inFlight.set(key, request)
+    request.then(
+      () => {
+        state.inFlight.delete(key)
+        state.lastErrors.delete(key)
+      },
+      error => {
+        state.inFlight.delete(key)
+        state.lastErrors.set(key, error instanceof Error ? error.message : String(error))
+      }
+    )
+    return request
+  }
+
+  const get = async (): Promise<CachedResult<T>> => {
+    const entry = state.entries.get(key) as CacheEntry<T> | undefined
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity
+
+    if (entry && age < ttlMs) {
+      return toResult(key, entry, 'hit')
+    }
+
+    if (entry && age < ttlMs + staleWhileRevalidateMs) {
+      revalidate().catch(error => {
+        console.error(`Background refresh of ${key} failed:`, error)
+      })
+      return toResult(key, entry, 'stale')
+    }
+
+    try {
+      return toResult(key, await revalidate(), 'miss')
+    } catch (error) {
+      if (!entry) throw error
+      // Upstream is down - keep serving the last good snapshot, marked with its age
+      console.error(`Refresh of ${key} failed, serving last good snapshot:`, error)
+      return toResult(key, entry, 'error')
+    }
+  }
+
+  return { get }
+}
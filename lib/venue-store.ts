@@ -0,0 +1,70 @@
+// Venues and their preferences, kept on the server so the bar's tablet, the manager's laptop and the
+// email scheduler all plan with the same ones. A deployment has a handful of venues, so they share
+// one document.
+
+import { now } from './clock'
+import { DEFAULT_VENUE_ID, UserPreferences, Venue } from './domain'
+import { readDocument, writeDocument } from './storage'
+
+const DOCUMENT_NAME = 'venues'
+const DEFAULT_VENUE_NAME = 'My venue'
+
+interface VenueDocument {
+  venues: Venue[]
+}
+
+function readVenues() {
+  return readDocument<VenueDocument>(DOCUMENT_NAME, { venues: [] })
+}
+
+// The default venue is listed before anything is saved for it
+export async function listVenues(): Promise<Venue[]> {
+  const { venues } = await readVenues()
+  if (venues.some(venue => venue.id === DEFAULT_VENUE_ID)) return venues
+  return [{ id: DEFAULT_VENUE_ID, name: DEFAULT_VENUE_NAME, preferences: null, updatedAt: null }, ...venues]
+}
+
+export async function getVenue(venueId: string): Promise<Venue | null> {
+  return (await listVenues()).find(venue => venue.id === venueId) ?? null
+}
+
+// Updates run one at a time so two saves never overwrite each other
+let pendingUpdate: Promise<unknown> = Promise.resolve()
+
+function updateVenues<T>(update: (venues: Venue[]) => { venues: Venue[]; result: T }): Promise<T> {
+  const run = pendingUpdate.catch(() => {}).then(async () => {
+    const { venues, result } = update(await listVenues())
+    await writeDocument(DOCUMENT_NAME, { venues })
+    return result
+  })
+  pendingUpdate = run
+  return run
+}
+
+// "Joe's Bar & Grill" -> "joe-s-bar-grill", numbered when taken
+function createVenueId(name: string, venues: Venue[]) {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'venue'
+  let id = base
+  for (let suffix = 2; venues.some(venue => venue.id === id); suffix++) {
+    id = `${base}-${suffix}`
+  }
+  return id
+}
+
+export function createVenue(name: string): Promise<Venue> {
+  return updateVenues(venues => {
+    const venue: Venue = { id: createVenueId(name, venues), name, preferences: null, updatedAt: null }
+    return { venues: [...venues, venue], result: venue }
+  })
+}
+
+// null when there's no such venue
+export function saveVenuePreferences(venueId: string, preferences: UserPreferences): Promise<Venue | null> {
+  return updateVenues(venues => {
+    const venue = venues.find(existing => existing.id === venueId)
+    if (!venue) return { venues, result: null }
+
+    const saved: Venue = { ...venue, preferences, updatedAt: now().toISOString() }
+    return { venues: venues.map(existing => existing.id === venueId ? saved : existing), result: saved }
+  })
+}
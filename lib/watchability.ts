@@ -0,0 +1,61 @@
+// Whether a venue can tune a game: one of the feeds it can see from its market (lib/blackouts.ts)
+// has to be on the networks, regional sports networks and streaming services it subscribes to,
+// and on the inputs of at least one of its TVs. Radio doesn't count. Runs on the client and the server.
+
+import { Game, UnwatchableGameHandling, UserPreferences } from './domain'
+import { BlackedOutFeed, Feed, getFeedAvailability } from './blackouts'
+import { normalizeBroadcasterName } from './data/channel-lineups'
+import { canTuneFeed, getTvInventory } from './tv-inventory'
+
+// Offered as checkboxes on the settings page; regional networks are typed in
+export const NATIONAL_NETWORKS = ['ABC', 'ESPN', 'ESPN2', 'TNT', 'truTV', 'NBA TV']
+export const STREAMING_SERVICES = ['NBA League Pass', 'Max', 'ESPN+', 'Peacock', 'Prime Video']
+
+export interface Watchability {
+  watchable: boolean
+  // The game's feeds the venue can see, subscribes to and has a TV for
+  available: Feed[]
+  blackedOut: BlackedOutFeed[]
+  // "only on NBA League Pass" when the game isn't watchable
+  reason: string | null
+}
+
+// "A", "A or B", "A, B or C"
+function formatAlternatives(names: string[]) {
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+}
+
+function getFeedNames(feeds: Feed[]) {
+  return Array.from(new Set(feeds.map(feed => feed.broadcaster.broadcasterDisplay)))
+}
+
+export function getWatchability(
+  game: Pick<Game, 'broadcasters' | 'homeTeam' | 'awayTeam'>,
+  preferences: Pick<UserPreferences, 'subscriptions' | 'zipCode' | 'numberOfTvs' | 'tvs'>
+): Watchability {
+  const { visible, blackedOut } = getFeedAvailability(game, preferences.zipCode)
+  // Before broadcasters are announced nothing rules a game out
+  if (visible.length === 0 && blackedOut.length === 0) {
+    return { watchable: true, available: [], blackedOut, reason: null }
+  }
+
+  // Without declared subscriptions every feed the venue can see counts
+  const subscribed = preferences.subscriptions && new Set(preferences.subscriptions.map(normalizeBroadcasterName))
+  const subscribedFeeds = visible.filter(feed => !subscribed || subscribed.has(normalizeBroadcasterName(feed.broadcaster.broadcasterDisplay)))
+  const tvs = getTvInventory(preferences)
+  const available = subscribedFeeds.filter(feed => tvs.some(tv => canTuneFeed(tv, feed)))
+  if (available.length > 0) {
+    return { watchable: true, available, blackedOut, reason: null }
+  }
+
+  const reason = subscribedFeeds.length > 0
+    ? `no TV here has an input for ${formatAlternatives(getFeedNames(subscribedFeeds))}`
+    : visible.length > 0
+      ? `only on ${formatAlternatives(getFeedNames(visible))}`
+      : `blacked out here - ${blackedOut.map(feed => feed.reason).join('; ')}`
+  return { watchable: false, available, blackedOut, reason }
+}
+
+export function getUnwatchableGameHandling(preferences: Pick<UserPreferences, 'unwatchableGames'>): UnwatchableGameHandling {
+  return preferences.unwatchableGames ?? 'exclude'
+}
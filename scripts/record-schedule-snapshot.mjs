@@ -0,0 +1,24 @@
+// Records the current NBA CDN schedule into SCHEDULE_SNAPSHOT_DIR for SCHEDULE_SOURCE=snapshots.
+// Usage: npm run record:schedule
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+
+const SCHEDULE_URL = 'https://cdn.nba.com/static/json/staticData/scheduleLeagueV2.json'
+
+const dir = path.resolve(process.cwd(), process.env.SCHEDULE_SNAPSHOT_DIR || 'fixtures/snapshots')
+
+const response = await fetch(SCHEDULE_URL, { signal: AbortSignal.timeout(30000) })
+if (!response.ok) {
+  console.error(`Failed to fetch schedule: HTTP ${response.status}`)
+  process.exit(1)
+}
+const body = await response.text()
+
+// Must match SNAPSHOT_NAME_PATTERN in lib/nba-schedule.ts
+const recordedAt = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/:/g, '-')
+const file = path.join(dir, `scheduleLeagueV2-${recordedAt}.json`)
+
+await mkdir(dir, { recursive: true })
+await writeFile(file, body)
+console.log(`Recorded ${file}`)